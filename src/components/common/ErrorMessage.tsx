@@ -1,16 +1,22 @@
 import React from 'react';
+import type { ErrorGuidance } from '../../types/dataSource.types';
 
 interface ErrorMessageProps {
   message: string;
+  // The data source's title and next step for the failed request, if it has one
+  guidance?: ErrorGuidance | null;
 }
 
-export const ErrorMessage: React.FC<ErrorMessageProps> = ({ message }) => {
+export const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, guidance }) => {
   return (
     <div className="flex-1 flex items-center justify-center p-4">
       <div className="bg-red-50 border border-red-200 rounded-lg p-6 max-w-md">
-        <h2 className="text-red-800 font-semibold mb-2">Error Loading Data</h2>
-        <p className="text-red-700 text-sm">{message}</p>
+        <h2 className="text-red-800 font-semibold mb-2">{guidance?.title || 'Error Loading Data'}</h2>
+        {guidance && <p className="text-red-700 text-sm mb-2">{guidance.action}</p>}
+        <p className={guidance ? 'text-red-600 text-xs font-mono break-words' : 'text-red-700 text-sm'}>
+          {message}
+        </p>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
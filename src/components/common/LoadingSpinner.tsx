@@ -1,12 +1,35 @@
 import React from 'react';
 
-export const LoadingSpinner: React.FC = () => {
+interface LoadingSpinnerProps {
+  progress?: {
+    phase: string;
+    loaded: number;
+    total: number;
+  } | null;
+}
+
+export const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ progress }) => {
+  const percentage = progress && progress.total > 0 ? (progress.loaded / progress.total) * 100 : 0;
+
   return (
     <div className="flex-1 flex items-center justify-center">
       <div className="text-center">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
-        <p className="text-gray-600">Loading timeline data...</p>
+        <p className="text-gray-600">{progress ? `${progress.phase}...` : 'Loading timeline data...'}</p>
+        {progress && progress.total > 0 && (
+          <div className="mt-3 w-64 mx-auto">
+            <div className="w-full bg-gray-200 rounded-full h-1.5">
+              <div
+                className="h-1.5 rounded-full bg-blue-600 transition-all"
+                style={{ width: `${percentage}%` }}
+              ></div>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              {progress.loaded} / {progress.total} work items
+            </p>
+          </div>
+        )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
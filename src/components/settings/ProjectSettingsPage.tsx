@@ -0,0 +1,358 @@
+import React, { useEffect, useState } from 'react';
+import { Settings, Save } from 'lucide-react';
+import { ColorPicker } from '../timeline/SettingsModal';
+import { BorderColors, defaultBorderColors } from '../timeline/SettingsContext';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+import { ErrorMessage } from '../common/ErrorMessage';
+import {
+  DateSourceStrategy,
+  DEFAULT_PROJECT_SETTINGS,
+  ProjectSettings,
+  RootWorkItemType,
+  ValueStreamGrouping,
+} from '../../types/settings.types';
+import { loadProjectSettings, saveProjectSettings } from '../../services/project-settings-service';
+import { formatQuarterLabel, getFiscalQuarter } from '../../utils/dateHelpers';
+
+const MONTH_NAMES = Array.from({ length: 12 }, (_, month) =>
+  new Date(2000, month, 1).toLocaleString('default', { month: 'long' })
+);
+
+const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const COLOR_LABELS: { key: keyof BorderColors; label: string }[] = [
+  { key: 'epic', label: 'Epic' },
+  { key: 'feature', label: 'Feature' },
+  { key: 'story', label: 'Story' },
+  { key: 'task', label: 'Task' },
+  { key: 'bug', label: 'Bug' },
+  { key: 'issue', label: 'Issue' },
+  { key: 'milestone', label: 'Milestone' },
+];
+
+// Types offered for completed state overrides, plus any type already configured
+const COMPLETED_STATE_TYPES = [
+  'Epic',
+  'Feature',
+  'User Story',
+  'Product Backlog Item',
+  'Requirement',
+  'Task',
+  'Bug',
+];
+
+// Completed states are edited as comma separated text per work item type
+const toStateText = (completedStates: ProjectSettings['completedStates']) =>
+  Array.from(new Set([...COMPLETED_STATE_TYPES, ...Object.keys(completedStates)])).reduce(
+    (acc, type) => {
+      acc[type] = (completedStates[type] || []).join(', ');
+      return acc;
+    },
+    {} as { [type: string]: string }
+  );
+
+const fromStateText = (stateText: { [type: string]: string }) =>
+  Object.keys(stateText).reduce((acc, type) => {
+    const states = stateText[type].split(',').map(s => s.trim()).filter(Boolean);
+    if (states.length > 0) acc[type] = states;
+    return acc;
+  }, {} as ProjectSettings['completedStates']);
+
+export const ProjectSettingsPage: React.FC = () => {
+  const [settings, setSettings] = useState<ProjectSettings>(DEFAULT_PROJECT_SETTINGS);
+  const [stateText, setStateText] = useState(toStateText(DEFAULT_PROJECT_SETTINGS.completedStates));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadProjectSettings()
+      .then(loaded => {
+        setSettings(loaded);
+        setStateText(toStateText(loaded.completedStates));
+      })
+      .catch((e: any) => setError(e?.message || 'Failed to load Timeline Settings'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const queryGuid = settings.queryGuid.trim();
+  const isQueryGuidValid = !queryGuid || GUID_PATTERN.test(queryGuid);
+
+  const currentQuarter = getFiscalQuarter(new Date(), settings.fiscalYearStartMonth);
+
+  const handleSave = async () => {
+    if (!isQueryGuidValid) return;
+
+    setSaving(true);
+    setStatus(null);
+    try {
+      const saved = await saveProjectSettings({
+        ...settings,
+        queryGuid,
+        valueStreamField: settings.valueStreamField.trim(),
+        completedStates: fromStateText(stateText),
+      });
+      setSettings(saved);
+      setStateText(toStateText(saved.completedStates));
+      setStatus('Settings saved. Team members get them the next time they open the Timeline.');
+    } catch (e: any) {
+      setStatus(`Save failed: ${e?.message || 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateBorderColor = (type: keyof BorderColors, color: string) => {
+    setSettings(prev => ({
+      ...prev,
+      borderColors: {
+        ...prev.borderColors,
+        [type]: color,
+      },
+    }));
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  if (error) {
+    return <ErrorMessage message={error} />;
+  }
+
+  return (
+    <div className="w-full min-h-screen bg-gray-50">
+      <div className="bg-white border-b border-gray-200 p-4 shadow-sm">
+        <h1 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+          <Settings className="w-6 h-6" />
+          Timeline Settings
+        </h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Project defaults for the Value Stream Timeline. Individual users can still change their
+          display options.
+        </p>
+      </div>
+
+      <div className="max-w-3xl p-6 space-y-6">
+        {/* Data Source */}
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Data Source</h3>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Query GUID</label>
+              <input
+                type="text"
+                value={settings.queryGuid}
+                onChange={(e) => setSettings({ ...settings, queryGuid: e.target.value })}
+                placeholder="e.g., 8a7d3c2b-1f4e-4b6a-9c8d-7e6f5a4b3c2d"
+                className={`w-full px-3 py-2 border rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  isQueryGuidValid ? 'border-gray-300' : 'border-red-500'
+                }`}
+              />
+              <p className={`text-xs mt-1 ${isQueryGuidValid ? 'text-gray-500' : 'text-red-600'}`}>
+                {isQueryGuidValid
+                  ? 'Saved tree or flat query from Azure Boards. Leave empty to use the built-in query.'
+                  : 'Not a valid GUID. Copy it from the query URL.'}
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Root Work Item Type</label>
+              <select
+                value={settings.rootWorkItemType}
+                onChange={(e) =>
+                  setSettings({ ...settings, rootWorkItemType: e.target.value as RootWorkItemType })
+                }
+                className="w-full text-sm border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="Epic">Epic</option>
+                <option value="Feature">Feature</option>
+              </select>
+            </div>
+          </div>
+        </div>
+
+        {/* Value Streams */}
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Value Streams</h3>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Group Work Items By</label>
+              <select
+                value={settings.valueStreamGrouping}
+                onChange={(e) =>
+                  setSettings({ ...settings, valueStreamGrouping: e.target.value as ValueStreamGrouping })
+                }
+                className="w-full text-sm border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="areaPath">Area Path</option>
+                <option value="tagPrefix">Tag with a prefix</option>
+                <option value="field">Custom field</option>
+                <option value="team">Team owning the area path</option>
+                <option value="none">No grouping (single lane)</option>
+              </select>
+            </div>
+
+            {settings.valueStreamGrouping === 'areaPath' && (
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Area Path Depth</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={settings.valueStreamAreaDepth}
+                  onChange={(e) =>
+                    setSettings({ ...settings, valueStreamAreaDepth: Math.max(0, Math.floor(Number(e.target.value) || 0)) })
+                  }
+                  className="w-32 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Number of area path levels that make a value stream, e.g. 2 groups Project\Payments\Checkout
+                  under Project\Payments. 0 uses the full path.
+                </p>
+              </div>
+            )}
+
+            {settings.valueStreamGrouping === 'tagPrefix' && (
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Tag Prefix</label>
+                <input
+                  type="text"
+                  value={settings.valueStreamTagPrefix}
+                  onChange={(e) => setSettings({ ...settings, valueStreamTagPrefix: e.target.value })}
+                  placeholder="VS:"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  A work item tagged VS:Payments goes to the Payments value stream. Items without such a
+                  tag share one lane.
+                </p>
+              </div>
+            )}
+
+            {settings.valueStreamGrouping === 'field' && (
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Field Reference Name</label>
+                <input
+                  type="text"
+                  value={settings.valueStreamField}
+                  onChange={(e) => setSettings({ ...settings, valueStreamField: e.target.value })}
+                  placeholder="e.g., Custom.ValueStream"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Each value of the field is a value stream. Items with the field empty share one lane.
+                </p>
+              </div>
+            )}
+
+            {settings.valueStreamGrouping === 'team' && (
+              <p className="text-xs text-gray-500">
+                Work items go to the team whose area paths include theirs, as set in each team&apos;s
+                Areas configuration. Items in areas no team owns share one lane.
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* Bar Dates */}
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-1">Bar Dates</h3>
+          <p className="text-xs text-gray-500 mb-4">
+            Where the start and end of each bar come from. When the chosen source has no dates, the
+            others are tried in turn.
+          </p>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Date Source</label>
+          <select
+            value={settings.dateSource}
+            onChange={(e) =>
+              setSettings({ ...settings, dateSource: e.target.value as DateSourceStrategy })
+            }
+            className="w-full text-sm border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="fields">Start Date / Target Date fields</option>
+            <option value="iteration">Iteration dates</option>
+            <option value="childIterations">Span of child iterations</option>
+          </select>
+        </div>
+
+        {/* Fiscal Year */}
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-1">Fiscal Year</h3>
+          <p className="text-xs text-gray-500 mb-4">
+            Quarters on the timeline, the Today button and the work items loaded follow this
+            calendar. Fiscal years are named after the year they end in.
+          </p>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Fiscal Year Starts In</label>
+          <select
+            value={settings.fiscalYearStartMonth}
+            onChange={(e) => setSettings({ ...settings, fiscalYearStartMonth: Number(e.target.value) })}
+            className="w-full text-sm border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {MONTH_NAMES.map((name, month) => (
+              <option key={month} value={month + 1}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-2">
+            The current quarter is shown as{' '}
+            <span className="font-medium text-gray-700">
+              {formatQuarterLabel(currentQuarter.year, currentQuarter.quarter, settings.fiscalYearStartMonth)}
+            </span>
+            .
+          </p>
+        </div>
+
+        {/* Completed States */}
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-1">Completed States</h3>
+          <p className="text-xs text-gray-500 mb-4">
+            States in the Completed category always count as done. List any additional states
+            (comma separated) that should count as done when calculating progress.
+          </p>
+          <div className="space-y-3">
+            {Object.keys(stateText).map((type) => (
+              <div key={type} className="flex items-center gap-2">
+                <label className="text-xs font-medium text-gray-700 w-24 flex-shrink-0">{type}</label>
+                <input
+                  type="text"
+                  value={stateText[type]}
+                  onChange={(e) => setStateText({ ...stateText, [type]: e.target.value })}
+                  className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Default Colors */}
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Default Border Colors</h3>
+          <div className="grid grid-cols-2 gap-x-6 gap-y-3">
+            {COLOR_LABELS.map(({ key, label }) => (
+              <ColorPicker
+                key={key}
+                label={label}
+                value={settings.borderColors[key] || defaultBorderColors[key]}
+                onChange={(color) => updateBorderColor(key, color)}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-4">
+          <button
+            onClick={handleSave}
+            disabled={saving || !isQueryGuidValid}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" />
+            {saving ? 'Saving...' : 'Save Settings'}
+          </button>
+          {status && <span className="text-sm text-gray-600">{status}</span>}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,263 @@
+import React, { useMemo, useState } from 'react';
+import { X, Upload, FileSpreadsheet, AlertTriangle, CheckCircle2, Loader2 } from 'lucide-react';
+import { readSpreadsheetFile, SpreadsheetTable } from '../../utils/spreadsheetParser';
+import {
+  IMPORT_FIELDS,
+  ColumnMapping,
+  ImportField,
+  buildImportedTimeline,
+  getMissingRequiredFields,
+  guessColumnMapping,
+} from '../../utils/timelineImport';
+import { loadImportedTimeline, saveImportedTimeline } from '../../services/spreadsheet-data-source';
+
+interface ImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+// Longer error lists are cut off; the count is still shown
+const MAX_ERRORS_SHOWN = 200;
+const PREVIEW_ROWS = 3;
+
+export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose, onImported }) => {
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<SpreadsheetTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [reading, setReading] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const missingFields = mapping ? getMissingRequiredFields(mapping) : [];
+  const result = useMemo(
+    () => (table && mapping && getMissingRequiredFields(mapping).length === 0
+      ? buildImportedTimeline(table, mapping)
+      : null),
+    [table, mapping]
+  );
+
+  if (!isOpen) return null;
+
+  const current = loadImportedTimeline();
+
+  const reset = () => {
+    setFileName('');
+    setTable(null);
+    setMapping(null);
+    setFileError(null);
+    setSaveError(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setReading(true);
+    setFileError(null);
+
+    try {
+      const parsed = await readSpreadsheetFile(file);
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+    } catch (e: any) {
+      console.error('Failed to read spreadsheet:', e);
+      setFileError(e?.message || 'The file could not be read');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: value === '' ? null : Number(value) });
+  };
+
+  const handleImport = () => {
+    if (!result) return;
+    try {
+      saveImportedTimeline(fileName, result.data);
+      onImported();
+      handleClose();
+    } catch (e: any) {
+      setSaveError(e?.message || 'The roadmap could not be saved');
+    }
+  };
+
+  const columnPreview = (index: number | null) =>
+    index === null || !table
+      ? ''
+      : table.rows.slice(0, PREVIEW_ROWS).map(row => row.cells[index] || '—').join(', ');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-2">
+            <FileSpreadsheet className="w-6 h-6 text-green-600" />
+            <h2 className="text-2xl font-semibold text-gray-900">Import Roadmap</h2>
+          </div>
+          <button onClick={handleClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {!table ? (
+            <>
+              <label className="w-full px-4 py-10 text-sm font-medium text-green-700 bg-green-50 border-2 border-dashed border-green-300 rounded-lg hover:bg-green-100 hover:border-green-400 transition-colors flex flex-col items-center justify-center gap-2 cursor-pointer">
+                {reading ? <Loader2 className="w-8 h-8 animate-spin" /> : <Upload className="w-8 h-8" />}
+                <span>{reading ? 'Reading file…' : 'Choose a CSV or Excel (.xlsx) file'}</span>
+                <span className="text-xs font-normal text-gray-500">
+                  One row per work item, with columns for ID, title, type, parent ID, start, end, state, value stream and tags
+                </span>
+                <input
+                  type="file"
+                  accept=".csv,.txt,.xlsx"
+                  className="hidden"
+                  disabled={reading}
+                  onChange={(e) => handleFile(e.target.files?.[0])}
+                />
+              </label>
+
+              {fileError && (
+                <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800 flex items-start gap-2">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span>{fileError}</span>
+                </div>
+              )}
+
+              {current && (
+                <p className="mt-4 text-xs text-gray-500">
+                  Showing {current.fileName}, imported {new Date(current.importedAt).toLocaleString()}. A new import replaces it.
+                </p>
+              )}
+            </>
+          ) : (
+            <>
+              {/* Column mapping */}
+              <h3 className="text-sm font-semibold text-gray-900 mb-1">Columns in {fileName}</h3>
+              <p className="text-xs text-gray-500 mb-3">
+                {table.rows.length} rows. Pick the column for each field; fields marked * are required.
+              </p>
+
+              <div className="space-y-2 mb-6">
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field} className="grid grid-cols-3 gap-3 items-center">
+                    <label htmlFor={`import-${field}`} className="text-sm font-medium text-gray-700">
+                      {label}{required && <span className="text-red-500"> *</span>}
+                    </label>
+                    <select
+                      id={`import-${field}`}
+                      value={mapping?.[field] ?? ''}
+                      onChange={(e) => handleMappingChange(field, e.target.value)}
+                      className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                    >
+                      <option value="">— Not in file —</option>
+                      {table.headers.map((header, index) => (
+                        <option key={index} value={index}>
+                          {header || `Column ${index + 1}`}
+                        </option>
+                      ))}
+                    </select>
+                    <span className="text-xs text-gray-400 truncate" title={columnPreview(mapping?.[field] ?? null)}>
+                      {columnPreview(mapping?.[field] ?? null)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              {/* Validation */}
+              {missingFields.length > 0 ? (
+                <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                  Map {missingFields.map(info => info.label).join(', ')} to continue.
+                </div>
+              ) : result && (
+                <>
+                  <div className="flex items-center gap-2 text-sm text-gray-700 mb-2">
+                    <CheckCircle2 className="w-4 h-4 text-green-600" />
+                    <span>
+                      {result.importedCount} of {table.rows.length} rows will be imported
+                      {result.errors.length > 0 && `, ${result.errors.length} left out`}
+                    </span>
+                  </div>
+
+                  {result.errors.length > 0 && (
+                    <div className="border border-red-200 rounded-lg max-h-64 overflow-y-auto">
+                      <table className="w-full text-xs">
+                        <thead className="bg-red-50 text-red-800 sticky top-0">
+                          <tr>
+                            <th className="text-left px-3 py-1.5 font-semibold">Row</th>
+                            <th className="text-left px-3 py-1.5 font-semibold">Column</th>
+                            <th className="text-left px-3 py-1.5 font-semibold">Problem</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {result.errors.slice(0, MAX_ERRORS_SHOWN).map((error, index) => (
+                            <tr key={index} className="border-t border-red-100">
+                              <td className="px-3 py-1.5 text-gray-700">{error.rowNumber}</td>
+                              <td className="px-3 py-1.5 text-gray-700">
+                                {error.field ? IMPORT_FIELDS.find(info => info.field === error.field)?.label : ''}
+                              </td>
+                              <td className="px-3 py-1.5 text-gray-900">{error.message}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      {result.errors.length > MAX_ERRORS_SHOWN && (
+                        <p className="px-3 py-1.5 text-xs text-gray-500 border-t border-red-100">
+                          {result.errors.length - MAX_ERRORS_SHOWN} more not shown
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </>
+              )}
+
+              {saveError && (
+                <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+                  {saveError}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-between gap-2 p-6 border-t border-gray-200">
+          <div>
+            {table && (
+              <button
+                onClick={reset}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Choose Another File
+              </button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={!result || result.importedCount === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Import
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -78,3 +78,24 @@ export const MilestoneProvider: React.FC<MilestoneProviderProps> = ({ children }
     </MilestoneContext.Provider>
   );
 };
+
+interface ReadOnlyMilestoneProviderProps {
+  milestones: Milestone[];
+  children: ReactNode;
+}
+
+/**
+ * Fixed milestones for a snapshot; changes are ignored and nothing is saved
+ */
+export const ReadOnlyMilestoneProvider: React.FC<ReadOnlyMilestoneProviderProps> = ({ milestones, children }) => (
+  <MilestoneContext.Provider
+    value={{
+      milestones,
+      addMilestone: () => undefined,
+      updateMilestone: () => undefined,
+      deleteMilestone: () => undefined,
+    }}
+  >
+    {children}
+  </MilestoneContext.Provider>
+);
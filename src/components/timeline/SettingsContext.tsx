@@ -1,4 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { DEFAULT_PROJECT_SETTINGS, ProjectSettings } from '../../types/settings.types';
+import { loadProjectSettings } from '../../services/project-settings-service';
 
 export interface BorderColors {
   epic: string;
@@ -10,19 +12,39 @@ export interface BorderColors {
   milestone: string;
 }
 
+export type NavigationStep = 'quarter' | 'pi';
+
 export interface Settings {
   showProgressBars: boolean;
   showTodayIndicator: boolean;
+  // Lanes nest along their area path (portfolio → value stream → ART → team)
+  nestLanes: boolean;
+  // Program Increment row above the quarters, when the iterations have PIs
+  showProgramIncrements: boolean;
+  // Sprint row under the months, and the sprints a card runs over
+  showIterations: boolean;
+  // Bars start and end on sprint boundaries
+  snapToIterations: boolean;
+  // What Previous / Next move by; PIs fall back to quarters without any
+  navigationStep: NavigationStep;
+  // Minutes between automatic refreshes, 0 = off
+  autoRefreshMinutes: number;
   borderColors: BorderColors;
 }
 
+// What a user saved on top of the project and built-in defaults
+type UserSettings = Partial<Omit<Settings, 'borderColors'>> & { borderColors?: Partial<BorderColors> };
+
 interface SettingsContextType {
   settings: Settings;
+  // Shared defaults from the Timeline Settings hub (built-in defaults outside Azure DevOps)
+  projectSettings: ProjectSettings;
+  projectSettingsLoaded: boolean;
   updateSettings: (newSettings: Partial<Settings>) => void;
   resetSettings: () => void;
 }
 
-const defaultBorderColors: BorderColors = {
+export const defaultBorderColors: BorderColors = {
   epic: 'border-blue-500',
   feature: 'border-green-500',
   story: 'border-yellow-500',
@@ -35,6 +57,12 @@ const defaultBorderColors: BorderColors = {
 const defaultSettings: Settings = {
   showProgressBars: true,
   showTodayIndicator: true,
+  nestLanes: true,
+  showProgramIncrements: true,
+  showIterations: false,
+  snapToIterations: false,
+  navigationStep: 'quarter',
+  autoRefreshMinutes: 0,
   borderColors: defaultBorderColors,
 };
 
@@ -52,52 +80,112 @@ interface SettingsProviderProps {
   children: ReactNode;
 }
 
+const isAzureDevOpsContext = typeof window !== 'undefined' && window.self !== window.top;
+
 export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children }) => {
-  const [settings, setSettings] = useState<Settings>(() => {
+  const [projectSettings, setProjectSettings] = useState<ProjectSettings>(DEFAULT_PROJECT_SETTINGS);
+  const [projectSettingsLoaded, setProjectSettingsLoaded] = useState(!isAzureDevOpsContext);
+
+  // Only what the user saved themselves; anything missing falls back to project defaults
+  const [userSettings, setUserSettings] = useState<UserSettings | null>(() => {
     // Try to load settings from localStorage
     const savedSettings = localStorage.getItem('timelineSettings');
     if (savedSettings) {
       try {
-        const parsed = JSON.parse(savedSettings);
-        // Merge with defaults to ensure new settings are added
-        return {
-          ...defaultSettings,
-          ...parsed,
-          borderColors: {
-            ...defaultBorderColors,
-            ...(parsed.borderColors || {}),
-          },
-        };
+        return JSON.parse(savedSettings);
       } catch (error) {
         console.error('Failed to parse saved settings:', error);
-        return defaultSettings;
+        return null;
       }
     }
-    return defaultSettings;
+    return null;
   });
 
-  // Save settings to localStorage whenever they change
   useEffect(() => {
-    localStorage.setItem('timelineSettings', JSON.stringify(settings));
-  }, [settings]);
+    if (!isAzureDevOpsContext) return;
+
+    loadProjectSettings()
+      .then(setProjectSettings)
+      .catch(error => console.error('Failed to load project Timeline Settings:', error))
+      .finally(() => setProjectSettingsLoaded(true));
+  }, []);
 
+  // Merge with defaults to ensure new settings are added
+  const settings: Settings = {
+    ...defaultSettings,
+    ...(userSettings || {}),
+    borderColors: {
+      ...defaultBorderColors,
+      ...projectSettings.borderColors,
+      ...(userSettings?.borderColors || {}),
+    },
+  };
+
+  // Only values that differ from what is shown become overrides, so the
+  // settings modal saving every field doesn't pin the project defaults
   const updateSettings = (newSettings: Partial<Settings>) => {
-    setSettings(prev => ({
-      ...prev,
-      ...newSettings,
+    const { borderColors: newBorderColors = {}, ...rest } = newSettings;
+    const changed = Object.fromEntries(
+      Object.entries(rest).filter(([key, value]) => value !== settings[key as keyof Settings])
+    ) as UserSettings;
+    const changedColors = Object.fromEntries(
+      Object.entries(newBorderColors).filter(([key, value]) => value !== settings.borderColors[key as keyof BorderColors])
+    ) as Partial<BorderColors>;
+
+    const next: UserSettings = {
+      ...(userSettings || {}),
+      ...changed,
       borderColors: {
-        ...prev.borderColors,
-        ...(newSettings.borderColors || {}),
+        ...(userSettings?.borderColors || {}),
+        ...changedColors,
       },
-    }));
+    };
+    localStorage.setItem('timelineSettings', JSON.stringify(next));
+    setUserSettings(next);
   };
 
+  // Drops the user's overrides so the project defaults apply again
   const resetSettings = () => {
-    setSettings(defaultSettings);
+    localStorage.removeItem('timelineSettings');
+    setUserSettings(null);
+  };
+
+  return (
+    <SettingsContext.Provider
+      value={{ settings, projectSettings, projectSettingsLoaded, updateSettings, resetSettings }}
+    >
+      {children}
+    </SettingsContext.Provider>
+  );
+};
+
+interface ReadOnlySettingsProviderProps {
+  settings: Partial<Settings>;
+  children: ReactNode;
+}
+
+/**
+ * Fixed settings for a snapshot. Settings missing from older snapshots use
+ * the defaults; changes are ignored.
+ */
+export const ReadOnlySettingsProvider: React.FC<ReadOnlySettingsProviderProps> = ({ settings, children }) => {
+  const { projectSettings, projectSettingsLoaded } = useSettings();
+  const fixedSettings: Settings = {
+    ...defaultSettings,
+    ...settings,
+    borderColors: { ...defaultBorderColors, ...(settings.borderColors || {}) },
   };
 
   return (
-    <SettingsContext.Provider value={{ settings, updateSettings, resetSettings }}>
+    <SettingsContext.Provider
+      value={{
+        settings: fixedSettings,
+        projectSettings,
+        projectSettingsLoaded,
+        updateSettings: () => undefined,
+        resetSettings: () => undefined,
+      }}
+    >
       {children}
     </SettingsContext.Provider>
   );
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { X } from 'lucide-react';
-import { useSettings, BorderColors } from './SettingsContext';
+import { useSettings, BorderColors, NavigationStep } from './SettingsContext';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -39,7 +39,16 @@ const COLOR_OPTIONS = [
   { name: 'Stone', value: 'border-stone-500', hex: '#78716c' },
 ];
 
-const ColorPicker: React.FC<ColorPickerProps> = ({ label, value, onChange }) => {
+// For displays left open, e.g. in a PI planning room
+const AUTO_REFRESH_OPTIONS = [
+  { minutes: 0, label: 'Off' },
+  { minutes: 1, label: 'Every minute' },
+  { minutes: 5, label: 'Every 5 minutes' },
+  { minutes: 15, label: 'Every 15 minutes' },
+  { minutes: 30, label: 'Every 30 minutes' },
+];
+
+export const ColorPicker: React.FC<ColorPickerProps> = ({ label, value, onChange }) => {
   const selectedColor = COLOR_OPTIONS.find(c => c.value === value) || COLOR_OPTIONS[0];
 
   return (
@@ -135,6 +144,79 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
                 />
                 <span className="text-sm font-medium text-gray-700">Show Today Indicator</span>
               </label>
+
+              <label className="flex items-center space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={localSettings.nestLanes}
+                  onChange={(e) => setLocalSettings({ ...localSettings, nestLanes: e.target.checked })}
+                  className="w-5 h-5 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span className="text-sm font-medium text-gray-700">Nest Value Streams by Area Path</span>
+              </label>
+
+              <label className="flex items-center space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={localSettings.showProgramIncrements}
+                  onChange={(e) => setLocalSettings({ ...localSettings, showProgramIncrements: e.target.checked })}
+                  className="w-5 h-5 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span className="text-sm font-medium text-gray-700">Show Program Increments</span>
+              </label>
+
+              <label className="flex items-center space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={localSettings.showIterations}
+                  onChange={(e) => setLocalSettings({ ...localSettings, showIterations: e.target.checked })}
+                  className="w-5 h-5 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span className="text-sm font-medium text-gray-700">Show Sprints</span>
+              </label>
+
+              <label className="flex items-center space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={localSettings.snapToIterations}
+                  onChange={(e) => setLocalSettings({ ...localSettings, snapToIterations: e.target.checked })}
+                  className="w-5 h-5 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span className="text-sm font-medium text-gray-700">Snap Bars to Sprint Boundaries</span>
+              </label>
+
+              <div className="flex items-center space-x-3">
+                <label htmlFor="navigation-step" className="text-sm font-medium text-gray-700">
+                  Previous / Next Moves By
+                </label>
+                <select
+                  id="navigation-step"
+                  value={localSettings.navigationStep}
+                  onChange={(e) => setLocalSettings({ ...localSettings, navigationStep: e.target.value as NavigationStep })}
+                  className="text-sm border border-gray-300 rounded px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="quarter">Quarter</option>
+                  <option value="pi">Program Increment</option>
+                </select>
+              </div>
+
+              <div className="flex items-center space-x-3">
+                <label htmlFor="auto-refresh" className="text-sm font-medium text-gray-700">
+                  Auto Refresh
+                </label>
+                <select
+                  id="auto-refresh"
+                  value={localSettings.autoRefreshMinutes}
+                  onChange={(e) => setLocalSettings({ ...localSettings, autoRefreshMinutes: Number(e.target.value) })}
+                  className="text-sm border border-gray-300 rounded px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {AUTO_REFRESH_OPTIONS.map(option => (
+                    <option key={option.minutes} value={option.minutes}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
           </div>
 
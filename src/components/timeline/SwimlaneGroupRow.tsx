@@ -0,0 +1,159 @@
+import React from 'react';
+import { AlertCircle, ChevronDown, ChevronRight } from 'lucide-react';
+import { GenericWorkItem, ValueStreamData } from '../../utils/dataAdapter';
+import { LaneNode, getLanesInNode } from '../../utils/laneHierarchy';
+import { calculateBarStyle } from '../../utils/timelineCalculations';
+import { TodayIndicator } from './TodayIndicator';
+import { useSettings } from './SettingsContext';
+import {
+  LANE_INDENT_PX,
+  ValueStreamRow,
+  ValueStreamRowProps,
+  calculateProgress,
+  isItemBlocked,
+} from './ValueStreamRow';
+
+/**
+ * What a collapsed parent lane shows for everything under it
+ */
+interface LaneRollup {
+  start: string | null;
+  end: string | null;
+  itemCount: number;
+  total: number;
+  completed: number;
+  // Blocked work items at any level
+  blocked: number;
+}
+
+function countBlocked(workItem: GenericWorkItem): number {
+  return (isItemBlocked(workItem) ? 1 : 0) +
+    (workItem.children || []).reduce((sum, child) => sum + countBlocked(child), 0);
+}
+
+function calculateLaneRollup(lanes: ValueStreamData[]): LaneRollup {
+  const items = lanes.flatMap(lane => [...lane.workItems, ...(lane.unparented || [])]);
+
+  return items.reduce<LaneRollup>(
+    (rollup, item) => {
+      const progress = calculateProgress(item);
+      return {
+        start: !rollup.start || item.iterationStart < rollup.start ? item.iterationStart : rollup.start,
+        end: !rollup.end || item.iterationEnd > rollup.end ? item.iterationEnd : rollup.end,
+        itemCount: rollup.itemCount + 1,
+        total: rollup.total + progress.total,
+        completed: rollup.completed + progress.completed,
+        blocked: rollup.blocked + countBlocked(item),
+      };
+    },
+    { start: null, end: null, itemCount: 0, total: 0, completed: 0, blocked: 0 }
+  );
+}
+
+interface SwimlaneGroupRowProps extends Omit<ValueStreamRowProps, 'valueStream'> {
+  node: LaneNode;
+  collapsedLanes: { [laneId: string]: boolean };
+  onToggleLane: (laneId: string) => void;
+}
+
+/**
+ * A lane of the nested view: a plain value stream row, or a collapsible
+ * parent lane over the lanes nested under it
+ */
+export const SwimlaneGroupRow: React.FC<SwimlaneGroupRowProps> = ({
+  node,
+  collapsedLanes,
+  onToggleLane,
+  depth = 0,
+  ...rowProps
+}) => {
+  const { settings } = useSettings();
+  const { timeline, monthColumnWidth, vsWidth, today, timelineStart, timelineEnd } = rowProps;
+
+  if (node.children.length === 0 && node.lane) {
+    return <ValueStreamRow valueStream={node.lane} depth={depth} {...rowProps} />;
+  }
+
+  const isCollapsed = !!collapsedLanes[node.id];
+  const lanes = getLanesInNode(node);
+  const rollup = calculateLaneRollup(lanes);
+  const percent = rollup.total > 0 ? Math.round((rollup.completed / rollup.total) * 100) : 0;
+  const barStyle = rollup.start && rollup.end
+    ? calculateBarStyle(rollup.start, rollup.end, timelineStart, timelineEnd, settings.snapToIterations ? rowProps.sprints : undefined)
+    : { display: 'none' as const };
+
+  return (
+    <div className={depth === 0 ? 'border-b-2 border-gray-400' : 'border-t border-gray-300'}>
+      <div className="flex" style={{ minHeight: isCollapsed ? '64px' : '40px' }}>
+        <div
+          className={`${vsWidth} flex-shrink-0 border-r-2 border-gray-300 bg-blue-200 p-2 flex items-center gap-1`}
+          style={{ paddingLeft: `${depth * LANE_INDENT_PX + 8}px` }}
+        >
+          <button
+            onClick={() => onToggleLane(node.id)}
+            className="flex items-center gap-1 min-w-0 text-left hover:text-blue-800 transition-colors"
+            title={node.path}
+            aria-expanded={!isCollapsed}
+          >
+            {isCollapsed
+              ? <ChevronRight className="w-4 h-4 flex-shrink-0 text-gray-600" />
+              : <ChevronDown className="w-4 h-4 flex-shrink-0 text-gray-600" />}
+            <span className="font-semibold text-xs sm:text-sm break-words">{node.name}</span>
+          </button>
+          <span className="ml-auto text-xs text-gray-600 flex-shrink-0">{lanes.length}</span>
+        </div>
+
+        <div className="flex-1 relative bg-gray-50 min-w-0 overflow-hidden">
+          <div className="absolute inset-0 flex">
+            {timeline.map((month, idx) => (
+              <div key={idx} className="border-r border-gray-200" style={{ width: monthColumnWidth }}></div>
+            ))}
+          </div>
+
+          {settings.showTodayIndicator && today >= timelineStart && today <= timelineEnd && (
+            <TodayIndicator position={rowProps.getCurrentDatePosition()} />
+          )}
+
+          {/* Everything under the lane as one bar */}
+          {isCollapsed && (
+            <div
+              className="absolute top-3 h-10 bg-blue-50 border-2 border-blue-400 rounded-md shadow-sm overflow-hidden"
+              style={barStyle}
+              title={`${node.path}: ${rollup.start} – ${rollup.end}`}
+            >
+              {settings.showProgressBars && (
+                <div className="absolute inset-y-0 left-0 bg-green-200" style={{ width: `${percent}%` }} />
+              )}
+              <div className="relative h-full px-2 flex items-center gap-2 text-xs text-gray-800 whitespace-nowrap">
+                <span className="font-medium">{rollup.itemCount} items</span>
+                {rollup.total > 0 && <span>{rollup.completed}/{rollup.total} done ({percent}%)</span>}
+                {rollup.blocked > 0 && (
+                  <span className="flex items-center gap-0.5 text-red-700 font-medium">
+                    <AlertCircle className="w-3.5 h-3.5" />
+                    {rollup.blocked} blocked
+                  </span>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {!isCollapsed && (
+        <div className="border-t border-gray-300">
+          {node.lane && <ValueStreamRow valueStream={node.lane} depth={depth + 1} {...rowProps} />}
+          {node.children.map(child => (
+            <SwimlaneGroupRow
+              key={child.id}
+              node={child}
+              collapsedLanes={collapsedLanes}
+              onToggleLane={onToggleLane}
+              depth={depth + 1}
+              {...rowProps}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
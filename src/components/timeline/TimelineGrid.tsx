@@ -2,6 +2,10 @@ import React from 'react';
 import { TimelineMonth, Quarter } from '../../types/timeline.types';
 import { TodayIndicator } from './TodayIndicator';
 import { useSettings } from './SettingsContext';
+import { ProgramIncrement } from '../../utils/programIncrements';
+import { findSprint, iterationName, toLocalDay } from '../../utils/sprints';
+import type { IterationOption } from '../../types/dataSource.types';
+import { calculateSpanStyle } from '../../utils/timelineCalculations';
 
 interface TimelineGridProps {
   vsWidth: string;
@@ -12,6 +16,10 @@ interface TimelineGridProps {
   timelineStart: Date;
   timelineEnd: Date;
   getCurrentDatePosition: () => string;
+  // PIs from the iteration tree, shown as a row above the quarters
+  programIncrements?: ProgramIncrement[];
+  // Sprint cadence, shown as a row under the months
+  sprints?: IterationOption[];
 }
 
 export const TimelineGrid: React.FC<TimelineGridProps> = ({
@@ -23,15 +31,61 @@ export const TimelineGrid: React.FC<TimelineGridProps> = ({
   timelineStart,
   timelineEnd,
   getCurrentDatePosition,
+  programIncrements = [],
+  sprints = [],
 }) => {
   const { settings } = useSettings();
 
+  const spanStyle = (startDate: string, finishDate: string) =>
+    calculateSpanStyle(toLocalDay(startDate), toLocalDay(finishDate), timelineStart, timelineEnd);
+  const visibleIncrements = settings.showProgramIncrements
+    ? programIncrements
+        .map(pi => ({
+          pi,
+          style: spanStyle(pi.startDate, pi.finishDate),
+          ipStyle: pi.ipIteration ? spanStyle(pi.ipIteration.startDate, pi.ipIteration.finishDate) : null,
+        }))
+        .filter(({ style }) => style)
+    : [];
+  const currentSprint = findSprint(sprints, today);
+  const visibleSprints = settings.showIterations
+    ? sprints
+        .map(sprint => ({ sprint, style: spanStyle(sprint.startDate, sprint.finishDate) }))
+        .filter(({ style }) => style)
+    : [];
+
   return (
     <div className="sticky top-0 z-20 bg-white border-b-2 border-gray-300 flex">
       <div className={`${vsWidth} flex-shrink-0 border-r-2 border-gray-300 bg-gray-100 p-2 font-semibold text-sm flex items-center justify-center`}>
         Value Stream
       </div>
       <div className="flex-1 min-w-0 relative">
+        {visibleIncrements.length > 0 && (
+          <div className="relative h-6 sm:h-8 border-b border-gray-200 bg-gray-50 overflow-hidden">
+            {visibleIncrements.map(({ pi, style }) => (
+              <div
+                key={pi.path}
+                className="absolute inset-y-0 border-r border-indigo-300 bg-indigo-50 px-1 sm:px-2 flex items-center text-xs sm:text-sm font-semibold text-indigo-900 whitespace-nowrap overflow-hidden"
+                style={style!}
+                title={`${pi.path}: ${pi.startDate} – ${pi.finishDate}`}
+              >
+                {pi.name}
+              </div>
+            ))}
+            {/* Innovation & Planning iteration shaded over the end of its PI */}
+            {visibleIncrements.map(({ pi, ipStyle }) => ipStyle && (
+              <div
+                key={`${pi.path}-ip`}
+                className="absolute inset-y-0 bg-amber-100 border-x border-amber-300 flex items-center justify-center text-xs text-amber-800 overflow-hidden"
+                style={ipStyle}
+                title={`${pi.ipIteration!.path}: Innovation & Planning`}
+              >
+                IP
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="flex border-b border-gray-200">
           {Object.values(quarters).map((q: Quarter, idx: number) => (
             <div
@@ -39,7 +93,7 @@ export const TimelineGrid: React.FC<TimelineGridProps> = ({
               className="border-r border-gray-200 bg-blue-50 p-1 sm:p-2 text-center font-semibold text-xs sm:text-sm"
               style={{ width: `${(q.months.length / timeline.length) * 100}%` }}
             >
-              <span className="hidden sm:inline">Q{q.quarter} {q.year}</span>
+              <span className="hidden sm:inline">{q.label}</span>
               <span className="sm:hidden">Q{q.quarter}</span>
             </div>
           ))}
@@ -57,6 +111,26 @@ export const TimelineGrid: React.FC<TimelineGridProps> = ({
           ))}
         </div>
 
+        {visibleSprints.length > 0 && (
+          <div className="relative h-5 sm:h-6 border-t border-gray-200 bg-white overflow-hidden">
+            {visibleSprints.map(({ sprint, style }) => {
+              const isCurrent = sprint === currentSprint;
+              return (
+                <div
+                  key={sprint.path}
+                  className={`absolute inset-y-0 border-r border-gray-200 px-1 flex items-center text-xs whitespace-nowrap overflow-hidden ${
+                    isCurrent ? 'bg-blue-100 text-blue-900 font-semibold' : 'text-gray-600'
+                  }`}
+                  style={style!}
+                  title={`${sprint.path}: ${sprint.startDate.slice(0, 10)} – ${sprint.finishDate.slice(0, 10)}${isCurrent ? ' (current sprint)' : ''}`}
+                >
+                  {iterationName(sprint)}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         {settings.showTodayIndicator && today >= timelineStart && today <= timelineEnd && (
           <TodayIndicator position={getCurrentDatePosition()} showLabel={true} />
         )}
@@ -1,13 +1,20 @@
 import React from 'react';
-import { Calendar, ChevronLeft, ChevronRight, ZoomIn, ZoomOut } from 'lucide-react';
+import { Calendar, ChevronLeft, ChevronRight, RefreshCw, ZoomIn, ZoomOut } from 'lucide-react';
 
 interface TimelineHeaderProps {
   zoomLevel: number;
   onZoomIn: () => void;
   onZoomOut: () => void;
-  onPreviousQuarter: () => void;
-  onNextQuarter: () => void;
-  onToday: () => void;
+  // Quarter (or PI) navigation, left out for snapshots which show a fixed range
+  onPreviousQuarter?: () => void;
+  onNextQuarter?: () => void;
+  onToday?: () => void;
+  // What navigation moves by, for the button titles
+  navigationUnit?: string;
+  // Pick up changed work items without reloading everything
+  onRefresh?: () => void;
+  refreshing?: boolean;
+  lastUpdated?: Date | null;
 }
 
 export const TimelineHeader: React.FC<TimelineHeaderProps> = ({
@@ -17,6 +24,10 @@ export const TimelineHeader: React.FC<TimelineHeaderProps> = ({
   onPreviousQuarter,
   onNextQuarter,
   onToday,
+  navigationUnit = 'Quarter',
+  onRefresh,
+  refreshing = false,
+  lastUpdated,
 }) => {
   return (
     <div className="bg-white border-b border-gray-200 p-2 sm:p-4 shadow-sm flex-shrink-0">
@@ -28,29 +39,48 @@ export const TimelineHeader: React.FC<TimelineHeaderProps> = ({
         </h1>
         
         <div className="flex items-center gap-2">
-          <div className="flex items-center gap-1 border-r pr-2 mr-2">
-            <button
-              onClick={onPreviousQuarter}
-              className="p-1.5 sm:p-2 hover:bg-gray-100 rounded-md transition-colors"
-              title="Previous Quarter"
-            >
-              <ChevronLeft className="w-4 h-4 sm:w-5 sm:h-5" />
-            </button>
-            <button
-              onClick={onToday}
-              className="px-2 py-1 text-xs sm:text-sm bg-blue-100 hover:bg-blue-200 rounded-md transition-colors font-medium"
-              title="Go to Current Quarter"
-            >
-              Today
-            </button>
-            <button
-              onClick={onNextQuarter}
-              className="p-1.5 sm:p-2 hover:bg-gray-100 rounded-md transition-colors"
-              title="Next Quarter"
-            >
-              <ChevronRight className="w-4 h-4 sm:w-5 sm:h-5" />
-            </button>
-          </div>
+          {onRefresh && (
+            <div className="flex items-center border-r pr-2 mr-2">
+              <button
+                onClick={onRefresh}
+                disabled={refreshing}
+                className="p-1.5 sm:p-2 hover:bg-gray-100 rounded-md transition-colors disabled:opacity-50"
+                title={
+                  lastUpdated
+                    ? `Refresh changed work items (last updated ${lastUpdated.toLocaleTimeString()})`
+                    : 'Refresh changed work items'
+                }
+              >
+                <RefreshCw className={`w-4 h-4 sm:w-5 sm:h-5 ${refreshing ? 'animate-spin' : ''}`} />
+              </button>
+            </div>
+          )}
+
+          {onPreviousQuarter && onNextQuarter && onToday && (
+            <div className="flex items-center gap-1 border-r pr-2 mr-2">
+              <button
+                onClick={onPreviousQuarter}
+                className="p-1.5 sm:p-2 hover:bg-gray-100 rounded-md transition-colors"
+                title={`Previous ${navigationUnit}`}
+              >
+                <ChevronLeft className="w-4 h-4 sm:w-5 sm:h-5" />
+              </button>
+              <button
+                onClick={onToday}
+                className="px-2 py-1 text-xs sm:text-sm bg-blue-100 hover:bg-blue-200 rounded-md transition-colors font-medium"
+                title={`Go to Current ${navigationUnit}`}
+              >
+                Today
+              </button>
+              <button
+                onClick={onNextQuarter}
+                className="p-1.5 sm:p-2 hover:bg-gray-100 rounded-md transition-colors"
+                title={`Next ${navigationUnit}`}
+              >
+                <ChevronRight className="w-4 h-4 sm:w-5 sm:h-5" />
+              </button>
+            </div>
+          )}
 
           <button
             onClick={onZoomOut}
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Eye, Settings, Calendar } from 'lucide-react';
+import { Eye, Settings, Calendar, Upload, Download, FolderOpen } from 'lucide-react';
 
 // ViewLevel now controls BOTH the root type AND the expand/collapse behavior
 export type ViewLevel = 'epic' | 'feature' | 'story';
@@ -14,6 +14,12 @@ interface TimelineToolbarProps {
   userStoriesCount?: number;
   onOpenSettings: () => void;
   onOpenMilestones: () => void;
+  // Only when the timeline shows an imported spreadsheet
+  onOpenImport?: () => void;
+  onExportSnapshot?: () => void;
+  onOpenSnapshot?: () => void;
+  // Snapshots: the view can't change and nothing can be edited
+  readOnly?: boolean;
 }
 
 export const TimelineToolbar: React.FC<TimelineToolbarProps> = ({
@@ -26,6 +32,10 @@ export const TimelineToolbar: React.FC<TimelineToolbarProps> = ({
   userStoriesCount,
   onOpenSettings,
   onOpenMilestones,
+  onOpenImport,
+  onExportSnapshot,
+  onOpenSnapshot,
+  readOnly = false,
 }) => {
   const [isViewMenuOpen, setIsViewMenuOpen] = React.useState(false);
 
@@ -54,7 +64,8 @@ export const TimelineToolbar: React.FC<TimelineToolbarProps> = ({
         <div className="relative">
           <button
             onClick={() => setIsViewMenuOpen(!isViewMenuOpen)}
-            className="flex items-center gap-2 px-3 py-1.5 hover:bg-gray-100 rounded-md transition-colors"
+            disabled={readOnly}
+            className="flex items-center gap-2 px-3 py-1.5 hover:bg-gray-100 rounded-md transition-colors disabled:hover:bg-transparent disabled:cursor-default"
             title={`Current view: ${getViewLevelDisplay()}`}
           >
             <Eye className="w-4 h-4 text-gray-600" />
@@ -121,24 +132,62 @@ export const TimelineToolbar: React.FC<TimelineToolbarProps> = ({
         </div>
 
         {/* Milestones Button */}
-        <button
-          onClick={onOpenMilestones}
-          className="flex items-center gap-2 px-3 py-1.5 hover:bg-purple-50 rounded-md transition-colors border border-purple-200"
-          title="Manage milestones"
-        >
-          <Calendar className="w-4 h-4 text-purple-600" />
-          <span className="text-sm font-medium text-purple-700">Milestones</span>
-        </button>
+        {!readOnly && (
+          <button
+            onClick={onOpenMilestones}
+            className="flex items-center gap-2 px-3 py-1.5 hover:bg-purple-50 rounded-md transition-colors border border-purple-200"
+            title="Manage milestones"
+          >
+            <Calendar className="w-4 h-4 text-purple-600" />
+            <span className="text-sm font-medium text-purple-700">Milestones</span>
+          </button>
+        )}
+
+        {/* Import Button */}
+        {onOpenImport && !readOnly && (
+          <button
+            onClick={onOpenImport}
+            className="flex items-center gap-2 px-3 py-1.5 hover:bg-green-50 rounded-md transition-colors border border-green-200"
+            title="Import a roadmap from a CSV or Excel file"
+          >
+            <Upload className="w-4 h-4 text-green-600" />
+            <span className="text-sm font-medium text-green-700">Import</span>
+          </button>
+        )}
+
+        {/* Snapshot Buttons */}
+        {onExportSnapshot && !readOnly && (
+          <button
+            onClick={onExportSnapshot}
+            className="flex items-center gap-2 px-3 py-1.5 hover:bg-gray-100 rounded-md transition-colors"
+            title="Save the timeline as it is now to a JSON file"
+          >
+            <Download className="w-4 h-4 text-gray-600" />
+            <span className="text-sm font-medium text-gray-700">Export Snapshot</span>
+          </button>
+        )}
+        {onOpenSnapshot && (
+          <button
+            onClick={onOpenSnapshot}
+            className="flex items-center gap-2 px-3 py-1.5 hover:bg-gray-100 rounded-md transition-colors"
+            title="Show a saved snapshot, read-only"
+          >
+            <FolderOpen className="w-4 h-4 text-gray-600" />
+            <span className="text-sm font-medium text-gray-700">Open Snapshot</span>
+          </button>
+        )}
 
         {/* Settings Button */}
-        <button
-          onClick={onOpenSettings}
-          className="flex items-center gap-2 px-3 py-1.5 hover:bg-gray-100 rounded-md transition-colors"
-          title="Open settings to configure timeline display options"
-        >
-          <Settings className="w-4 h-4 text-gray-600" />
-          <span className="text-sm font-medium text-gray-700">Settings</span>
-        </button>
+        {!readOnly && (
+          <button
+            onClick={onOpenSettings}
+            className="flex items-center gap-2 px-3 py-1.5 hover:bg-gray-100 rounded-md transition-colors"
+            title="Open settings to configure timeline display options"
+          >
+            <Settings className="w-4 h-4 text-gray-600" />
+            <span className="text-sm font-medium text-gray-700">Settings</span>
+          </button>
+        )}
       </div>
 
       <div className="hidden md:flex items-center gap-4 text-sm text-gray-600">
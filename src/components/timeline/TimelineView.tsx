@@ -1,18 +1,38 @@
-import React, { useState, useRef } from 'react';
-import { Calendar } from 'lucide-react';
+import React, { useState, useRef, useMemo } from 'react';
+import { Calendar, AlertTriangle, Loader2, Archive, X } from 'lucide-react';
 import { TimelineHeader } from './TimelineHeader';
 import { TimelineGrid } from './TimelineGrid';
 import { TimelineToolbar, ViewLevel } from './TimelineToolbar';
 import { SettingsModal } from './SettingsModal';
 import { MilestoneModal } from './MilestoneModal';
 import { ValueStreamRow } from './ValueStreamRow';
+import { SwimlaneGroupRow } from './SwimlaneGroupRow';
+import { UnscheduledPanel } from './UnscheduledPanel';
+import { ImportModal } from './ImportModal';
+import { ReadOnlySettingsProvider, useSettings } from './SettingsContext';
+import { ReadOnlyMilestoneProvider, useMilestones } from './MilestoneContext';
 import { LoadingSpinner } from '../common/LoadingSpinner';
 import { ErrorMessage } from '../common/ErrorMessage';
 import { useTimelineData } from '../../hooks/useTimelineData';
+import { useIterationCalendar } from '../../hooks/useIterationCalendar';
 import { useResponsive } from '../../hooks/useResponsive';
 import { calculateTimelineRange, generateTimeline, groupTimelineByQuarters } from '../../utils/dateHelpers';
 import { getCurrentDatePosition } from '../../utils/timelineCalculations';
+import { ValueStreamData } from '../../utils/dataAdapter';
+import { buildLaneTree } from '../../utils/laneHierarchy';
+import { buildProgramIncrements, calculatePiRange, clampPiOffset } from '../../utils/programIncrements';
+import { getSprintCadence } from '../../utils/sprints';
 import { ZOOM } from '../../utils/constants';
+import { getConfiguredDataSource, getConfiguredDataSourceId } from '../../services/data-source-registry';
+import { SPREADSHEET_DATA_SOURCE_ID } from '../../services/spreadsheet-data-source';
+import { SNAPSHOT_VERSION, TimelineSnapshot } from '../../types/snapshot.types';
+import {
+  createSnapshot,
+  downloadSnapshot,
+  parseLocalDate,
+  parseSnapshot,
+  toLocalDateString,
+} from '../../utils/timelineSnapshot';
 
 type RootWorkItemType = 'Epic' | 'Feature';
 
@@ -24,32 +44,110 @@ function getRootWorkItemType(viewLevel: ViewLevel): RootWorkItemType {
   return viewLevel === 'feature' ? 'Feature' : 'Epic';
 }
 
-export const TimelineView: React.FC = () => {
-  const [viewLevel, setViewLevel] = useState<ViewLevel>('epic'); // Default to Epic
+interface TimelineViewProps {
+  // Shown read-only instead of live data
+  snapshot?: TimelineSnapshot;
+  onCloseSnapshot?: () => void;
+  // Opening another snapshot file while one is shown replaces it
+  onReplaceSnapshot?: (snapshot: TimelineSnapshot) => void;
+}
+
+export const TimelineView: React.FC<TimelineViewProps> = ({ snapshot, onCloseSnapshot, onReplaceSnapshot }) => {
+  const readOnly = !!snapshot;
+  const canOpenSnapshot = !readOnly || !!onReplaceSnapshot;
+  const { settings, projectSettings, projectSettingsLoaded } = useSettings();
+  const { milestones } = useMilestones();
+  // Until the user picks a view, start from the project's configured root type
+  const [selectedViewLevel, setViewLevel] = useState<ViewLevel | null>(snapshot?.view.viewLevel ?? null);
+  const viewLevel: ViewLevel =
+    selectedViewLevel ?? (projectSettings.rootWorkItemType === 'Feature' ? 'feature' : 'epic');
   const rootWorkItemType = getRootWorkItemType(viewLevel);
-  const { data, loading, error } = useTimelineData(rootWorkItemType);
-  const { vsWidth } = useResponsive();
-  const [expandedItems, setExpandedItems] = useState<{[key: string]: boolean}>({});
   const [quarterOffset, setQuarterOffset] = useState(0);
-  const [zoomLevel, setZoomLevel] = useState(ZOOM.DEFAULT);
+  const [piOffset, setPiOffset] = useState(0);
+  // A snapshot file opened from this (live) timeline
+  const [openedSnapshot, setOpenedSnapshot] = useState<TimelineSnapshot | null>(null);
+  const [snapshotError, setSnapshotError] = useState<string | null>(null);
+  const snapshotInputRef = useRef<HTMLInputElement>(null);
+  const liveIterations = useIterationCalendar(projectSettingsLoaded && !readOnly && !openedSnapshot);
+  const iterations = useMemo(
+    () => (snapshot ? snapshot.iterations : liveIterations),
+    [snapshot, liveIterations]
+  );
+  const programIncrements = useMemo(() => buildProgramIncrements(iterations), [iterations]);
+  const sprints = useMemo(() => getSprintCadence(iterations), [iterations]);
+  // Stepping by PI needs PIs in the iteration tree; otherwise quarters it is
+  const stepByPi = settings.navigationStep === 'pi' && programIncrements.length > 0;
+  // A snapshot draws Today where it was captured
+  const today = snapshot ? new Date(snapshot.capturedAt) : new Date();
+  // Quarters, Today and the fetch window follow the project's fiscal calendar
+  const fiscalYearStartMonth = snapshot ? snapshot.view.fiscalYearStartMonth : projectSettings.fiscalYearStartMonth;
+
+  const { timelineStart, timelineEnd } = snapshot
+    ? { timelineStart: parseLocalDate(snapshot.view.timelineStart), timelineEnd: parseLocalDate(snapshot.view.timelineEnd) }
+    : (stepByPi && calculatePiRange(programIncrements, piOffset, today)) ||
+      calculateTimelineRange(quarterOffset, fiscalYearStartMonth);
+
+  const liveData = useTimelineData(
+    rootWorkItemType,
+    projectSettingsLoaded && !readOnly && !openedSnapshot,
+    { timelineStart, timelineEnd },
+    readOnly || openedSnapshot ? 0 : settings.autoRefreshMinutes,
+    fiscalYearStartMonth
+  );
+  const {
+    data,
+    loading,
+    loadingQuarters,
+    refreshing,
+    lastUpdated,
+    error,
+    errorGuidance,
+    progress,
+    warning,
+    reload,
+    refresh,
+  } = snapshot
+    ? {
+        ...liveData,
+        data: snapshot.data,
+        loading: false,
+        loadingQuarters: false,
+        refreshing: false,
+        lastUpdated: snapshot.data.lastUpdated ? new Date(snapshot.data.lastUpdated) : null,
+        error: null,
+        errorGuidance: null,
+        progress: null,
+        warning: null,
+      }
+    : liveData;
+  const { vsWidth } = useResponsive();
+  const [expandedItems, setExpandedItems] = useState<{[key: string]: boolean}>(snapshot?.view.expandedItems ?? {});
+  const [collapsedLanes, setCollapsedLanes] = useState<{[laneId: string]: boolean}>(snapshot?.view.collapsedLanes ?? {});
+  const [zoomLevel, setZoomLevel] = useState(snapshot?.view.zoomLevel ?? ZOOM.DEFAULT);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isMilestonesOpen, setIsMilestonesOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  // Showing a roadmap imported from a spreadsheet instead of a connected system
+  const importMode = getConfiguredDataSourceId() === SPREADSHEET_DATA_SOURCE_ID;
+  const [unscheduledLane, setUnscheduledLane] = useState<ValueStreamData | null>(null);
   const timelineRef = useRef<HTMLDivElement>(null);
-  const today = new Date();
 
   // Add defensive check
   const safeData = data || { valueStreams: [] };
   const valueStreams = safeData.valueStreams || [];
 
-  const { timelineStart, timelineEnd } = calculateTimelineRange(quarterOffset);
   const timeline = generateTimeline(timelineStart, timelineEnd);
-  const quarters = groupTimelineByQuarters(timeline);
+  const quarters = groupTimelineByQuarters(timeline, fiscalYearStartMonth);
   const monthColumnWidth = `${(1 / timeline.length) * 100}%`;
 
   const toggleItem = (itemId: string) => {
     setExpandedItems(prev => ({ ...prev, [itemId]: !prev[itemId] }));
   };
 
+  const toggleLane = (laneId: string) => {
+    setCollapsedLanes(prev => ({ ...prev, [laneId]: !prev[laneId] }));
+  };
+
   const handleZoomIn = () => {
     setZoomLevel(prev => Math.min(prev + ZOOM.STEP, ZOOM.MAX));
   };
@@ -59,17 +157,31 @@ export const TimelineView: React.FC = () => {
   };
 
   const handlePreviousQuarter = () => {
-    setQuarterOffset(prev => prev - 1);
+    if (stepByPi) {
+      setPiOffset(prev => clampPiOffset(programIncrements, prev - 1, today));
+    } else {
+      setQuarterOffset(prev => prev - 1);
+    }
   };
 
   const handleNextQuarter = () => {
-    setQuarterOffset(prev => prev + 1);
+    if (stepByPi) {
+      setPiOffset(prev => clampPiOffset(programIncrements, prev + 1, today));
+    } else {
+      setQuarterOffset(prev => prev + 1);
+    }
   };
 
   const handleToday = () => {
-    setQuarterOffset(0);
+    if (stepByPi) {
+      setPiOffset(0);
+    } else {
+      setQuarterOffset(0);
+    }
   };
 
+  const navigationUnit = stepByPi ? 'PI' : 'Quarter';
+
   const getTodayPosition = () => getCurrentDatePosition(today, timelineStart, timelineEnd);
 
   const handleViewLevelChange = (level: ViewLevel) => {
@@ -80,7 +192,7 @@ export const TimelineView: React.FC = () => {
       // Story view: Expand everything to show stories
       const allItemsExpanded: {[key: string]: boolean} = {};
       data?.valueStreams.forEach(vs => {
-        vs.workItems.forEach(item => {
+        [...vs.workItems, ...(vs.unparented || [])].forEach(item => {
           allItemsExpanded[item.id] = true;
           // Also expand children if they exist
           if (item.children) {
@@ -95,7 +207,7 @@ export const TimelineView: React.FC = () => {
       // Feature view with Epic root: Expand epics to show features
       const topLevelExpanded: {[key: string]: boolean} = {};
       data?.valueStreams.forEach(vs => {
-        vs.workItems.forEach(item => {
+        [...vs.workItems, ...(vs.unparented || [])].forEach(item => {
           topLevelExpanded[item.id] = true;
         });
       });
@@ -122,6 +234,64 @@ export const TimelineView: React.FC = () => {
     setIsMilestonesOpen(false);
   };
 
+  const handleOpenImport = () => {
+    setIsImportOpen(true);
+  };
+
+  const handleExportSnapshot = () => {
+    const dataSource = getConfiguredDataSource();
+    downloadSnapshot(createSnapshot(
+      {
+        ...safeData,
+        lastUpdated: (lastUpdated ?? new Date()).toISOString(),
+        metadata: { sourceId: dataSource.id, sourceName: dataSource.name, rootWorkItemType },
+      },
+      milestones,
+      settings,
+      {
+        viewLevel,
+        timelineStart: toLocalDateString(timelineStart),
+        timelineEnd: toLocalDateString(timelineEnd),
+        fiscalYearStartMonth,
+        zoomLevel,
+        expandedItems,
+        collapsedLanes,
+      },
+      liveIterations
+    ));
+  };
+
+  const handleOpenSnapshot = () => {
+    snapshotInputRef.current?.click();
+  };
+
+  const handleSnapshotFile = async (file: File | undefined) => {
+    if (!file) return;
+    setSnapshotError(null);
+    try {
+      const opened = parseSnapshot(await file.text());
+      if (onReplaceSnapshot) onReplaceSnapshot(opened);
+      else setOpenedSnapshot(opened);
+    } catch (e: any) {
+      console.error('Failed to open snapshot:', e);
+      setSnapshotError(`Could not open ${file.name}: ${e?.message || 'Unknown error'}`);
+    }
+  };
+
+  // Lets the same file be picked again after closing it
+  const snapshotInput = (
+    <input
+      ref={snapshotInputRef}
+      type="file"
+      accept=".json,application/json"
+      className="hidden"
+      onChange={(e) => {
+        void handleSnapshotFile(e.target.files?.[0]);
+        e.target.value = '';
+      }}
+    />
+  );
+
   // Calculate counts for different work item types
   const calculateCounts = () => {
     let epicsCount = 0;
@@ -129,7 +299,7 @@ export const TimelineView: React.FC = () => {
     let storiesCount = 0;
 
     valueStreams.forEach(vs => {
-      vs.workItems.forEach(item => {
+      [...vs.workItems, ...(vs.unparented || [])].forEach(item => {
         if (item.workItemType === 'Epic') {
           epicsCount++;
           if (item.children) {
@@ -156,6 +326,66 @@ export const TimelineView: React.FC = () => {
 
   const { epicsCount, featuresCount, storiesCount } = calculateCounts();
 
+  if (openedSnapshot) {
+    return (
+      <ReadOnlySettingsProvider settings={openedSnapshot.settings}>
+        <ReadOnlyMilestoneProvider milestones={openedSnapshot.milestones}>
+          <TimelineView
+            key={openedSnapshot.capturedAt}
+            snapshot={openedSnapshot}
+            onCloseSnapshot={() => setOpenedSnapshot(null)}
+            onReplaceSnapshot={setOpenedSnapshot}
+          />
+        </ReadOnlyMilestoneProvider>
+      </ReadOnlySettingsProvider>
+    );
+  }
+
+  // A snapshot stays where it was captured: no quarter navigation or refresh
+  const navigationProps = readOnly
+    ? {}
+    : {
+        onPreviousQuarter: handlePreviousQuarter,
+        onNextQuarter: handleNextQuarter,
+        onToday: handleToday,
+        navigationUnit,
+        onRefresh: refresh,
+      };
+
+  const snapshotBanner = snapshot && (
+    <div className="bg-indigo-50 border-b border-indigo-200 px-4 py-2 flex items-center gap-2 text-sm text-indigo-800">
+      <Archive className="w-4 h-4 flex-shrink-0" />
+      <span className="flex-1">
+        Snapshot captured {new Date(snapshot.capturedAt).toLocaleString()}
+        {snapshot.data.metadata && ` from ${snapshot.data.metadata.sourceName}`}. Read-only.
+        {snapshot.version < SNAPSHOT_VERSION && ' Saved by an earlier version, so it has no PI or sprint rows.'}
+      </span>
+      {onCloseSnapshot && (
+        <button
+          onClick={onCloseSnapshot}
+          className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-indigo-700 hover:bg-indigo-100 rounded transition-colors"
+        >
+          <X className="w-3.5 h-3.5" />
+          Close Snapshot
+        </button>
+      )}
+    </div>
+  );
+
+  const snapshotErrorBanner = snapshotError && (
+    <div className="bg-red-50 border-b border-red-200 px-4 py-2 flex items-center gap-2 text-sm text-red-800">
+      <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+      <span className="flex-1">{snapshotError}</span>
+      <button
+        onClick={() => setSnapshotError(null)}
+        className="p-1 text-red-700 hover:bg-red-100 rounded transition-colors"
+        title="Dismiss"
+      >
+        <X className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+
   if (loading) {
     return (
       <div className="w-full h-screen bg-gray-50 overflow-hidden flex flex-col">
@@ -166,6 +396,7 @@ export const TimelineView: React.FC = () => {
           onPreviousQuarter={handlePreviousQuarter}
           onNextQuarter={handleNextQuarter}
           onToday={handleToday}
+          navigationUnit={navigationUnit}
         />
         <TimelineToolbar
           viewLevel={viewLevel}
@@ -177,10 +408,15 @@ export const TimelineView: React.FC = () => {
           userStoriesCount={0}
           onOpenSettings={handleOpenSettings}
           onOpenMilestones={handleOpenMilestones}
+          onOpenImport={importMode ? handleOpenImport : undefined}
+          onOpenSnapshot={canOpenSnapshot ? handleOpenSnapshot : undefined}
         />
-        <LoadingSpinner />
+        {snapshotErrorBanner}
+        <LoadingSpinner progress={progress} />
         <SettingsModal isOpen={isSettingsOpen} onClose={handleCloseSettings} />
         <MilestoneModal isOpen={isMilestonesOpen} onClose={handleCloseMilestones} />
+        <ImportModal isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} onImported={reload} />
+        {snapshotInput}
       </div>
     );
   }
@@ -195,6 +431,7 @@ export const TimelineView: React.FC = () => {
           onPreviousQuarter={handlePreviousQuarter}
           onNextQuarter={handleNextQuarter}
           onToday={handleToday}
+          navigationUnit={navigationUnit}
         />
         <TimelineToolbar
           viewLevel={viewLevel}
@@ -206,10 +443,15 @@ export const TimelineView: React.FC = () => {
           userStoriesCount={0}
           onOpenSettings={handleOpenSettings}
           onOpenMilestones={handleOpenMilestones}
+          onOpenImport={importMode ? handleOpenImport : undefined}
+          onOpenSnapshot={canOpenSnapshot ? handleOpenSnapshot : undefined}
         />
-        <ErrorMessage message={error} />
+        {snapshotErrorBanner}
+        <ErrorMessage message={error} guidance={errorGuidance} />
         <SettingsModal isOpen={isSettingsOpen} onClose={handleCloseSettings} />
         <MilestoneModal isOpen={isMilestonesOpen} onClose={handleCloseMilestones} />
+        <ImportModal isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} onImported={reload} />
+        {snapshotInput}
       </div>
     );
   }
@@ -223,9 +465,9 @@ export const TimelineView: React.FC = () => {
           zoomLevel={zoomLevel}
           onZoomIn={handleZoomIn}
           onZoomOut={handleZoomOut}
-          onPreviousQuarter={handlePreviousQuarter}
-          onNextQuarter={handleNextQuarter}
-          onToday={handleToday}
+          {...navigationProps}
+          refreshing={refreshing}
+          lastUpdated={lastUpdated}
         />
         <TimelineToolbar
           viewLevel={viewLevel}
@@ -237,47 +479,137 @@ export const TimelineView: React.FC = () => {
           userStoriesCount={0}
           onOpenSettings={handleOpenSettings}
           onOpenMilestones={handleOpenMilestones}
+          onOpenImport={importMode ? handleOpenImport : undefined}
+          onOpenSnapshot={canOpenSnapshot ? handleOpenSnapshot : undefined}
+          readOnly={readOnly}
         />
+        {snapshotBanner}
+        {snapshotErrorBanner}
         <div className="flex-1 flex items-center justify-center">
           <div className="text-center text-gray-600">
             <Calendar className="w-16 h-16 mx-auto mb-4 text-gray-400" />
             <p className="text-lg font-semibold mb-2">No Data Available</p>
-            <p className="text-sm">No {rootTypeName} with valid iterations found in your Azure DevOps project.</p>
-            <p className="text-xs mt-2 text-gray-500">Make sure your {rootTypeName} are assigned to iterations with start and end dates.</p>
-            <p className="text-xs mt-1 text-gray-500">Currently showing: Previous, Current, and Next iterations.</p>
+            {readOnly ? (
+              <p className="text-sm">The snapshot has no {rootTypeName} in these quarters.</p>
+            ) : importMode ? (
+              <>
+                <p className="text-sm">No imported {rootTypeName} in these quarters.</p>
+                <p className="text-xs mt-2 text-gray-500">Use Import to load a roadmap from a CSV or Excel file.</p>
+              </>
+            ) : (
+              <>
+                <p className="text-sm">No {rootTypeName} with valid iterations found in your Azure DevOps project.</p>
+                <p className="text-xs mt-2 text-gray-500">Make sure your {rootTypeName} are assigned to iterations with start and end dates.</p>
+              </>
+            )}
+            {!readOnly && <p className="text-xs mt-1 text-gray-500">Use Previous / Next to look at other quarters.</p>}
           </div>
         </div>
-        <SettingsModal isOpen={isSettingsOpen} onClose={handleCloseSettings} />
-        <MilestoneModal isOpen={isMilestonesOpen} onClose={handleCloseMilestones} />
+        {!readOnly && (
+          <>
+            <SettingsModal isOpen={isSettingsOpen} onClose={handleCloseSettings} />
+            <MilestoneModal isOpen={isMilestonesOpen} onClose={handleCloseMilestones} />
+            <ImportModal isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} onImported={reload} />
+          </>
+        )}
+        {canOpenSnapshot && snapshotInput}
       </div>
     );
   }
 
+  const visibleLanes = valueStreams.filter(vs =>
+    vs.workItems.length > 0 ||
+    (vs.unparented?.length ?? 0) > 0 ||
+    (vs.unscheduled?.length ?? 0) > 0
+  );
+  // Shared by flat and nested lanes
+  const laneRowProps = {
+    vsWidth,
+    timeline,
+    monthColumnWidth,
+    expandedItems,
+    onToggleItem: toggleItem,
+    today,
+    timelineStart,
+    timelineEnd,
+    getCurrentDatePosition: getTodayPosition,
+    onShowUnscheduled: setUnscheduledLane,
+    sprints,
+  };
+
   return (
     <div className="w-full h-screen bg-gray-50 overflow-hidden flex flex-col">
       <TimelineHeader
         zoomLevel={zoomLevel}
         onZoomIn={handleZoomIn}
         onZoomOut={handleZoomOut}
-        onPreviousQuarter={handlePreviousQuarter}
-        onNextQuarter={handleNextQuarter}
-        onToday={handleToday}
+        {...navigationProps}
+        refreshing={refreshing}
+        lastUpdated={lastUpdated}
       />
 
       <TimelineToolbar
         viewLevel={viewLevel}
         onViewLevelChange={handleViewLevelChange}
         valueStreamsCount={valueStreams.length}
-        workItemsCount={valueStreams.reduce((sum, vs) => sum + vs.workItems.length, 0)}
+        workItemsCount={valueStreams.reduce(
+          (sum, vs) => sum + vs.workItems.length + (vs.unparented?.length ?? 0),
+          0
+        )}
         epicsCount={epicsCount}
         featuresCount={featuresCount}
         userStoriesCount={storiesCount}
         onOpenSettings={handleOpenSettings}
         onOpenMilestones={handleOpenMilestones}
+        onOpenImport={importMode ? handleOpenImport : undefined}
+        onExportSnapshot={handleExportSnapshot}
+        onOpenSnapshot={canOpenSnapshot ? handleOpenSnapshot : undefined}
+        readOnly={readOnly}
+      />
+      {snapshotBanner}
+      {snapshotErrorBanner}
+
+      {!readOnly && (
+        <>
+          <SettingsModal isOpen={isSettingsOpen} onClose={handleCloseSettings} />
+          <MilestoneModal isOpen={isMilestonesOpen} onClose={handleCloseMilestones} />
+          <ImportModal isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} onImported={reload} />
+        </>
+      )}
+      {canOpenSnapshot && snapshotInput}
+      <UnscheduledPanel
+        valueStream={unscheduledLane}
+        onClose={() => setUnscheduledLane(null)}
+        onScheduled={refresh}
+        readOnly={readOnly}
       />
 
-      <SettingsModal isOpen={isSettingsOpen} onClose={handleCloseSettings} />
-      <MilestoneModal isOpen={isMilestonesOpen} onClose={handleCloseMilestones} />
+      {loadingQuarters && (
+        <div className="bg-blue-50 border-b border-blue-200 px-4 py-2 flex items-center gap-2 text-sm text-blue-800">
+          <Loader2 className="w-4 h-4 flex-shrink-0 animate-spin" />
+          <span>
+            Loading work items for the new quarters
+            {progress && progress.total > 0 && ` (${progress.loaded} / ${progress.total})`}…
+          </span>
+        </div>
+      )}
+
+      {warning && (
+        <div className="bg-yellow-50 border-b border-yellow-200 px-4 py-2 flex items-center gap-2 text-sm text-yellow-800">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          <span>{warning}</span>
+        </div>
+      )}
+
+      {refreshing && (
+        <div
+          className="fixed bottom-4 right-4 z-40 bg-white border border-gray-200 shadow-md rounded-full px-3 py-1.5 flex items-center gap-2 text-xs text-gray-600"
+          title="Showing saved data while the latest work items load"
+        >
+          <Loader2 className="w-3.5 h-3.5 animate-spin text-blue-600" />
+          <span>Refreshing…</span>
+        </div>
+      )}
 
       <div className="flex-1 overflow-auto relative" ref={timelineRef}>
         <div 
@@ -298,28 +630,30 @@ export const TimelineView: React.FC = () => {
               timelineStart={timelineStart}
               timelineEnd={timelineEnd}
               getCurrentDatePosition={getTodayPosition}
+              programIncrements={programIncrements}
+              sprints={sprints}
             />
 
             <div className="flex-1">
-              {valueStreams
-                .filter(vs => vs.workItems.length > 0)
-                .map((vs) => {
-                  return (
-                    <ValueStreamRow
-                      key={vs.id}
-                      valueStream={vs}
-                      vsWidth={vsWidth}
-                      timeline={timeline}
-                      monthColumnWidth={monthColumnWidth}
-                      expandedItems={expandedItems}
-                      onToggleItem={toggleItem}
-                      today={today}
-                      timelineStart={timelineStart}
-                      timelineEnd={timelineEnd}
-                      getCurrentDatePosition={getTodayPosition}
+              {settings.nestLanes
+                ? buildLaneTree(visibleLanes).map(node => (
+                    <SwimlaneGroupRow
+                      key={node.id}
+                      node={node}
+                      collapsedLanes={collapsedLanes}
+                      onToggleLane={toggleLane}
+                      {...laneRowProps}
                     />
-                  );
-                })}
+                  ))
+                : visibleLanes.map((vs) => {
+                    return (
+                      <ValueStreamRow
+                        key={vs.id}
+                        valueStream={vs}
+                        {...laneRowProps}
+                      />
+                    );
+                  })}
             </div>
           </div>
         </div>
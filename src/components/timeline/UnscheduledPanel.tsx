@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { X, CalendarX, CalendarPlus, Check } from 'lucide-react';
+import { ValueStreamData } from '../../utils/dataAdapter';
+import { useWorkItemScheduling } from '../../hooks/useWorkItemScheduling';
+
+interface UnscheduledPanelProps {
+  valueStream: ValueStreamData | null;
+  onClose: () => void;
+  // Called on close when at least one item was scheduled, so the timeline can reload
+  onScheduled: () => void;
+  // Snapshots only list the items
+  readOnly?: boolean;
+}
+
+export const UnscheduledPanel: React.FC<UnscheduledPanelProps> = ({ valueStream, onClose, onScheduled, readOnly = false }) => {
+  const items = valueStream?.unscheduled || [];
+  const { iterations, canSchedule, loading, schedule } = useWorkItemScheduling(items, !!valueStream && !readOnly);
+  const [selectedIterations, setSelectedIterations] = useState<{ [id: string]: string }>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [scheduledIds, setScheduledIds] = useState<{ [id: string]: boolean }>({});
+  const [errors, setErrors] = useState<{ [id: string]: string }>({});
+
+  if (!valueStream) return null;
+
+  const handleSchedule = async (id: string) => {
+    const iterationPath = selectedIterations[id];
+    if (!iterationPath) return;
+
+    setSavingId(id);
+    setErrors(prev => ({ ...prev, [id]: '' }));
+    try {
+      await schedule(id, iterationPath);
+      setScheduledIds(prev => ({ ...prev, [id]: true }));
+    } catch (e: any) {
+      setErrors(prev => ({ ...prev, [id]: e?.message || 'Could not update the work item' }));
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleClose = () => {
+    if (Object.keys(scheduledIds).length > 0) {
+      onScheduled();
+    }
+    setSelectedIterations({});
+    setScheduledIds({});
+    setErrors({});
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-2">
+            <CalendarX className="w-6 h-6 text-amber-600" />
+            <h2 className="text-2xl font-semibold text-gray-900">Unscheduled · {valueStream.name}</h2>
+          </div>
+          <button onClick={handleClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6">
+          <p className="text-xs text-gray-500 mb-4">
+            These work items have no dates from any source, so they (and their children) are not on the timeline.
+            {readOnly
+              ? ' This snapshot is read-only.'
+              : !loading && !canSchedule && ' You can view them here but do not have permission to schedule them.'}
+          </p>
+
+          <div className="space-y-2">
+            {items.map((item) => (
+              <div key={item.id} className="p-4 bg-white border border-gray-200 rounded-lg">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <h4 className="text-sm font-semibold text-gray-900 truncate">{item.title}</h4>
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      {item.workItemType} #{item.id}
+                      {item.state && ` · ${item.state}`}
+                      {item.parentId && ` · child of #${item.parentId}`}
+                      {item.childCount > 0 && ` · ${item.childCount} hidden children`}
+                    </p>
+                  </div>
+                  {scheduledIds[item.id] && (
+                    <span className="flex items-center gap-1 text-xs text-green-700 whitespace-nowrap">
+                      <Check className="w-4 h-4" />
+                      Scheduled
+                    </span>
+                  )}
+                </div>
+
+                <p className="text-xs text-amber-700 bg-amber-50 rounded px-2 py-1 mt-2">{item.reason}</p>
+
+                {canSchedule && !scheduledIds[item.id] && (
+                  <div className="flex items-center gap-2 mt-3">
+                    <select
+                      value={selectedIterations[item.id] || ''}
+                      onChange={(e) => setSelectedIterations(prev => ({ ...prev, [item.id]: e.target.value }))}
+                      className="flex-1 text-xs border border-gray-300 rounded-lg px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Select an iteration…</option>
+                      {iterations.map((iteration) => (
+                        <option key={iteration.path} value={iteration.path}>
+                          {iteration.path} ({new Date(iteration.startDate).toLocaleDateString()} – {new Date(iteration.finishDate).toLocaleDateString()})
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => handleSchedule(item.id)}
+                      disabled={!selectedIterations[item.id] || savingId === item.id}
+                      className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                    >
+                      <CalendarPlus className="w-4 h-4" />
+                      {savingId === item.id ? 'Scheduling…' : 'Schedule'}
+                    </button>
+                  </div>
+                )}
+
+                {errors[item.id] && (
+                  <p className="text-xs text-red-600 mt-2">{errors[item.id]}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end p-6 border-t border-gray-200 bg-gray-50">
+          <button
+            onClick={handleClose}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,18 @@
 import React from 'react';
+import { CalendarX } from 'lucide-react';
 import { TimelineMonth } from '../../types/timeline.types';
 import { GenericWorkItem, ValueStreamData } from '../../utils/dataAdapter';
 import { WorkItemCard } from './WorkItemCard';
 import { TodayIndicator } from './TodayIndicator';
 import { MilestoneIndicator } from './MilestoneIndicator';
 import { calculateBarStyle } from '../../utils/timelineCalculations';
+import { describeSprintSpan } from '../../utils/sprints';
+import type { IterationOption } from '../../types/dataSource.types';
 import { isItemVisible as checkItemVisible } from '../../utils/dateHelpers';
 import { CARD_HEIGHTS, COLORS } from '../../utils/constants';
 import { useSettings } from './SettingsContext';
 import { useMilestones } from './MilestoneContext';
+import { isCompletedState, isRemovedState } from '../../utils/stateCategories';
 
 // --- Helper function to extract milestone name from tags ---
 function extractMilestoneName(tags?: string[] | string): string | null {
@@ -52,20 +56,8 @@ function pluralize(type: string): string {
   return lowerType + 's'; // feature -> features, epic -> epics
 }
 
-// --- Progress calculation helpers ---
-const COMPLETED_STATE_NAMES = new Set([
-  'done', 'closed', 'resolved', 'completed', 'shipped', 'released'
-]);
-
-function isCompletedState(state: any, stateCategory?: any): boolean {
-  const s = (state || '').toString().toLowerCase().trim();
-  const cat = (stateCategory || '').toString().toLowerCase().trim();
-  if (cat === 'completed' || cat === 'done') return true;
-  return COMPLETED_STATE_NAMES.has(s);
-}
-
 // --- Helper function to check if item is blocked ---
-function isItemBlocked(workItem: GenericWorkItem): boolean {
+export function isItemBlocked(workItem: GenericWorkItem): boolean {
   // Check state
   if (workItem.state?.toLowerCase() === 'blocked') {
     return true;
@@ -100,8 +92,13 @@ function hasBlockedDescendant(workItem: GenericWorkItem): boolean {
   return false;
 }
 
-function calculateProgress(workItem: GenericWorkItem): { total: number; completed: number } {
+export function calculateProgress(workItem: GenericWorkItem): { total: number; completed: number } {
   // Use pre-calculated counts if available (more efficient and accurate)
+  if (workItem.childCount !== undefined) {
+    return { total: workItem.childCount, completed: workItem.completedChildCount ?? 0 };
+  }
+
+  // Legacy epics/features payloads
   if (workItem.workItemType === 'Epic') {
     const total = workItem.featureCount ?? workItem.children?.length ?? 0;
     const completed = workItem.completedFeatureCount ?? 0;
@@ -120,6 +117,7 @@ function calculateProgress(workItem: GenericWorkItem): { total: number; complete
     let completed = 0;
     
     workItem.children.forEach(child => {
+      if (isRemovedState(child.stateCategory)) return;
       total++;
       // A child is considered "completed" if it's in a completed state
       if (isCompletedState(child.state, child.stateCategory)) {
@@ -289,6 +287,9 @@ interface RenderWorkItemsProps {
   isItemVisible: (start: string, end: string) => boolean;
   borderColors: any;
   milestones: any[];
+  // Sprints bars snap to, and sprints a card's span is described in
+  snapSprints?: IterationOption[];
+  spanSprints?: IterationOption[];
 }
 
 const RenderWorkItems: React.FC<RenderWorkItemsProps> = ({
@@ -301,6 +302,8 @@ const RenderWorkItems: React.FC<RenderWorkItemsProps> = ({
   isItemVisible,
   borderColors,
   milestones,
+  snapSprints,
+  spanSprints,
 }) => {
   let currentOffset = yOffset;
 
@@ -312,7 +315,8 @@ const RenderWorkItems: React.FC<RenderWorkItemsProps> = ({
         }
 
         const config = getWorkItemConfigWithSettings(workItem, borderColors);
-        const barStyle = calculateBarStyle(workItem.iterationStart, workItem.iterationEnd, timelineStart, timelineEnd);
+        const barStyle = calculateBarStyle(workItem.iterationStart, workItem.iterationEnd, timelineStart, timelineEnd, snapSprints);
+        const sprintSpan = spanSprints && describeSprintSpan(workItem.iterationStart, workItem.iterationEnd, spanSprints);
         const progress = calculateProgress(workItem);
         const itemYOffset = currentOffset;
         const hasChildren = workItem.children && workItem.children.length > 0;
@@ -348,9 +352,13 @@ const RenderWorkItems: React.FC<RenderWorkItemsProps> = ({
               onToggle={hasChildren ? () => onToggleItem(workItem.id) : undefined}
               config={config}
               hasBlockedDescendant={hasBlockedChild}
+              sprintSpan={sprintSpan || undefined}
               metadata={{
                 state: workItem.state,
                 workItemType: workItem.workItemType,
+                childWorkItemType: workItem.childLevel,
+                dateSource: workItem.dateSource,
+                url: workItem.url,
                 childCount: workItem.children?.length || 0,
                 tags: workItem.tags,
               }}
@@ -383,6 +391,8 @@ const RenderWorkItems: React.FC<RenderWorkItemsProps> = ({
                 isItemVisible={isItemVisible}
                 borderColors={borderColors}
                 milestones={milestones}
+                snapSprints={snapSprints}
+                spanSprints={spanSprints}
               />
             )}
           </div>
@@ -392,8 +402,11 @@ const RenderWorkItems: React.FC<RenderWorkItemsProps> = ({
   );
 };
 
+// Indent per nesting level of the lane label
+export const LANE_INDENT_PX = 12;
+
 // --- Main ValueStreamRow Component ---
-interface ValueStreamRowProps {
+export interface ValueStreamRowProps {
   valueStream: ValueStreamData;
   vsWidth: string;
   timeline: TimelineMonth[];
@@ -404,6 +417,11 @@ interface ValueStreamRowProps {
   timelineStart: Date;
   timelineEnd: Date;
   getCurrentDatePosition: () => string;
+  onShowUnscheduled?: (valueStream: ValueStreamData) => void;
+  // Nesting level under parent lanes
+  depth?: number;
+  // Sprint cadence from the iteration calendar
+  sprints?: IterationOption[];
 }
 
 export const ValueStreamRow: React.FC<ValueStreamRowProps> = ({
@@ -417,9 +435,17 @@ export const ValueStreamRow: React.FC<ValueStreamRowProps> = ({
   timelineStart,
   timelineEnd,
   getCurrentDatePosition,
+  onShowUnscheduled,
+  depth = 0,
+  sprints,
 }) => {
   const { settings } = useSettings();
   const { milestones } = useMilestones();
+  const unscheduledCount = valueStream.unscheduled?.length || 0;
+  const unparented = valueStream.unparented || [];
+  const unparentedLabel = unparented.length > 0
+    ? unparented[0].backlogLevel || pluralize(unparented[0].workItemType)
+    : '';
   const isItemVisible = (start: string, end: string) => 
     checkItemVisible(start, end, timelineStart, timelineEnd);
 
@@ -430,44 +456,92 @@ export const ValueStreamRow: React.FC<ValueStreamRowProps> = ({
     settings.borderColors
   );
 
-  return (
-    <div 
-      className="flex border-b-2 border-gray-400 transition-all duration-300" 
-      style={{ minHeight: `${rowHeight}px`, paddingTop: '8px', paddingBottom: '8px' }}
-    >
-      <div className={`${vsWidth} flex-shrink-0 border-r-2 border-gray-300 bg-blue-100 p-2 sm:p-4 flex items-center justify-center`}>
-        <span className="font-semibold text-xs sm:text-sm break-words text-center">
-          {valueStream.name}
-        </span>
+  const unparentedHeight = calculateTotalHeight(
+    unparented,
+    expandedItems,
+    isItemVisible,
+    settings.borderColors
+  );
+
+  // Month grid, today line and cards for one row of the lane
+  const renderTimelineArea = (workItems: GenericWorkItem[]) => (
+    <div className="flex-1 relative bg-white min-w-0">
+      <div className="absolute inset-0 flex">
+        {timeline.map((month, idx) => (
+          <div
+            key={idx}
+            className="border-r border-gray-200"
+            style={{ width: monthColumnWidth }}
+          ></div>
+        ))}
       </div>
 
-      <div className="flex-1 relative bg-white min-w-0">
-        <div className="absolute inset-0 flex">
-          {timeline.map((month, idx) => (
-            <div
-              key={idx}
-              className="border-r border-gray-200"
-              style={{ width: monthColumnWidth }}
-            ></div>
-          ))}
+      {settings.showTodayIndicator && today >= timelineStart && today <= timelineEnd && (
+        <TodayIndicator position={getCurrentDatePosition()} />
+      )}
+
+      <RenderWorkItems
+        workItems={workItems}
+        yOffset={8}
+        timelineStart={timelineStart}
+        timelineEnd={timelineEnd}
+        expandedItems={expandedItems}
+        onToggleItem={onToggleItem}
+        isItemVisible={isItemVisible}
+        borderColors={settings.borderColors}
+        milestones={milestones}
+        snapSprints={settings.snapToIterations ? sprints : undefined}
+        spanSprints={settings.showIterations ? sprints : undefined}
+      />
+    </div>
+  );
+
+  return (
+    <div className="border-b-2 border-gray-400">
+      <div 
+        className="flex transition-all duration-300" 
+        style={{ minHeight: `${rowHeight}px`, paddingTop: '8px', paddingBottom: '8px' }}
+      >
+        <div
+          className={`${vsWidth} flex-shrink-0 border-r-2 border-gray-300 bg-blue-100 p-2 sm:p-4 flex flex-col items-center justify-center gap-2`}
+          style={depth > 0 ? { paddingLeft: `${depth * LANE_INDENT_PX + 8}px` } : undefined}
+        >
+          <span className="font-semibold text-xs sm:text-sm break-words text-center" title={valueStream.path || valueStream.name}>
+            {valueStream.name}
+          </span>
+          {unscheduledCount > 0 && (
+            <button
+              onClick={() => onShowUnscheduled?.(valueStream)}
+              className="flex items-center gap-1 text-xs text-amber-800 bg-amber-100 border border-amber-300 rounded-full px-2 py-0.5 hover:bg-amber-200 transition-colors"
+              title="Work items left off the timeline because they have no dates"
+            >
+              <CalendarX className="w-3 h-3" />
+              {unscheduledCount} unscheduled
+            </button>
+          )}
         </div>
 
-        {settings.showTodayIndicator && today >= timelineStart && today <= timelineEnd && (
-          <TodayIndicator position={getCurrentDatePosition()} />
-        )}
-
-        <RenderWorkItems
-          workItems={valueStream.workItems}
-          yOffset={8}
-          timelineStart={timelineStart}
-          timelineEnd={timelineEnd}
-          expandedItems={expandedItems}
-          onToggleItem={onToggleItem}
-          isItemVisible={isItemVisible}
-          borderColors={settings.borderColors}
-          milestones={milestones}
-        />
+        {renderTimelineArea(valueStream.workItems)}
       </div>
+
+      {/* Items without a parent, so planning gaps stay visible */}
+      {unparented.length > 0 && (
+        <div 
+          className="flex border-t border-dashed border-gray-300 transition-all duration-300" 
+          style={{ minHeight: `${unparentedHeight}px`, paddingTop: '8px', paddingBottom: '8px' }}
+        >
+          <div
+            className={`${vsWidth} flex-shrink-0 border-r-2 border-gray-300 bg-gray-100 p-2 sm:p-4 flex items-center justify-center`}
+            title={`${valueStream.name}: ${unparentedLabel} with no parent`}
+          >
+            <span className="text-xs sm:text-sm italic text-gray-600 break-words text-center">
+              Unparented {unparentedLabel}
+            </span>
+          </div>
+
+          {renderTimelineArea(unparented)}
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -28,13 +28,26 @@ interface WorkItemCardProps {
   onToggle?: () => void;
   onClick?: () => void;
   hasBlockedDescendant?: boolean;
+  // Sprints the item runs over, e.g. "Sprint 3 – Sprint 5 (3 sprints)"
+  sprintSpan?: string;
   metadata?: {
     tags?: string[] | string;
     childWorkItemType?: string;
+    dateSource?: string;
+    url?: string;
     [key: string]: any;
   };
 }
 
+const DATE_SOURCE_LABELS: Record<string, string> = {
+  fields: 'Start / Target Date',
+  iteration: 'Iteration',
+  childIterations: 'Child iterations',
+  sprints: 'Sprints',
+  fixVersions: 'Fix versions',
+  milestone: 'Milestone',
+};
+
 const DEFAULT_CONFIGS: Record<WorkItemType, Partial<WorkItemCardConfig>> = {
   epic: {
     borderColor: 'border-blue-500',
@@ -128,6 +141,7 @@ export const WorkItemCard: React.FC<WorkItemCardProps> = ({
   onToggle,
   onClick,
   hasBlockedDescendant = false,
+  sprintSpan,
   metadata = {},
 }) => {
   const { settings } = useSettings();
@@ -196,8 +210,10 @@ export const WorkItemCard: React.FC<WorkItemCardProps> = ({
     // Link will naturally open in new window via target="_blank"
   };
 
-  // Build Azure DevOps work item URL
+  // Build Azure DevOps work item URL (other data sources pass their own)
   const getWorkItemUrl = () => {
+    if (metadata.url) return metadata.url;
+
     const orgUrl = process.env.REACT_APP_AZDO_ORG_URL || '';
     const project = process.env.REACT_APP_AZDO_PROJECT || '';
     
@@ -262,6 +278,20 @@ export const WorkItemCard: React.FC<WorkItemCardProps> = ({
             <span className="text-gray-500">End Date:</span>
             <span className="text-gray-900 font-medium">{new Date(iterationEnd).toLocaleDateString()}</span>
           </div>
+          {metadata.dateSource && (
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-gray-500">Dates from:</span>
+              <span className="text-gray-900 font-medium">
+                {DATE_SOURCE_LABELS[metadata.dateSource] || metadata.dateSource}
+              </span>
+            </div>
+          )}
+          {sprintSpan && (
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-gray-500">Sprints:</span>
+              <span className="text-gray-900 font-medium">{sprintSpan}</span>
+            </div>
+          )}
           
           {metadata.state && (
             <div className="flex items-center justify-between text-xs">
@@ -423,6 +453,7 @@ export const WorkItemCard: React.FC<WorkItemCardProps> = ({
               {metadata.state && (
                 <div className={`mb-1 ${config.type === 'feature' ? 'mt-1' : ''}`}>
                   <span className="text-xs text-gray-500 italic">{metadata.state}</span>
+                  {sprintSpan && <span className="text-xs text-gray-500"> · {sprintSpan}</span>}
                 </div>
               )}
 
@@ -0,0 +1,35 @@
+import { useState, useEffect } from 'react';
+import type { IterationOption } from '../types/dataSource.types';
+import { getConfiguredDataSource } from '../services/data-source-registry';
+
+/**
+ * Every dated iteration of the connected project, for the iteration based
+ * header rows. Empty when the data source has no iterations or they could
+ * not be loaded; the timeline then only shows calendar quarters.
+ */
+export const useIterationCalendar = (enabled: boolean = true) => {
+  const [iterations, setIterations] = useState<IterationOption[]>([]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const source = getConfiguredDataSource();
+        const calendar = source.getIterationCalendar ? await source.getIterationCalendar() : [];
+        if (!cancelled) setIterations(calendar);
+      } catch (e) {
+        console.error('[useIterationCalendar] Error loading iterations:', e);
+        if (!cancelled) setIterations([]);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  return iterations;
+};
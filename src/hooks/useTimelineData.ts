@@ -1,164 +1,278 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import type { TimelineData } from '../utils/dataAdapter';
-import { transformLegacyData } from '../utils/dataAdapter';
+import { mergeTimelineData } from '../utils/dataAdapter';
+import { calculateTimelineRange, getQuartersInRange } from '../utils/dateHelpers';
+import type { RootWorkItemType } from '../types/settings.types';
+import type { ErrorGuidance, FetchProgress, TimelineDataSource } from '../types/dataSource.types';
+import { isRequestError } from '../services/http-request';
+import { readCache, writeCache } from '../services/cache-store';
+import { getConfiguredDataSource } from '../services/data-source-registry';
 
-type RootWorkItemType = 'Epic' | 'Feature';
+// Cached timelines older than this are not shown while revalidating
+const TIMELINE_CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
 
-// Small helper to pretty-print available exports if we can't find a fetcher
-function listExportedKeys(mod: any) {
-  try {
-    return Object.keys(mod).sort().join(', ');
-  } catch {
-    return '(unable to inspect module exports)';
-  }
+// One fetch of missing quarters; the timeline is the merge of all of them
+interface LoadedWindow {
+  start: Date;
+  end: Date;
+  // IndexedDB key, null when the connected project could not be identified
+  storageKey: string | null;
+  data: TimelineData;
 }
 
-// Tries to call the "best" available fetcher in the service
-async function fetchValueStreamsAuto(
-  isDev: boolean,
-  env: Record<string, string | undefined>,
-  rootWorkItemType: RootWorkItemType,
-  iterationFilter?: any
-): Promise<any[]> {
-  // Dynamically import the service
-  const svc = await import('../services/azure-devops-service');
-
-  const candidates = [
-    'fetchWorkItems',
-    'fetchValueStreams',
-    'fetchWorkItemsLocal',
-    'fetchWorkItemsFromQueryId',
-    'fetchWorkItemsFromQuery',
-    'getValueStreams',
-  ] as const;
-
-  const fnName = candidates.find((k) => typeof (svc as any)[k] === 'function');
-
-  if (!fnName) {
-    throw new Error(
-      `No known fetch function found in azure-devops-service. ` +
-      `Tried: ${candidates.join(', ')}. ` +
-      `Exports I can see: ${listExportedKeys(svc)}`
+export const useTimelineData = (
+  rootWorkItemType: RootWorkItemType = 'Epic',
+  enabled: boolean = true, // Hold the fetch until project settings are known
+  visibleRange: { timelineStart: Date; timelineEnd: Date } = calculateTimelineRange(0), // Quarters or PIs TimelineView shows
+  autoRefreshMinutes: number = 0, // Refresh on an interval (0 = off), e.g. for a planning room display
+  fiscalYearStartMonth: number = 1 // Work items are fetched per (fiscal) quarter
+) => {
+  const [data, setData] = useState<TimelineData>({ valueStreams: [] });
+  const [loading, setLoading] = useState(true);
+  const [loadingQuarters, setLoadingQuarters] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // The data source's advice for a failed request
+  const [errorGuidance, setErrorGuidance] = useState<ErrorGuidance | null>(null);
+  const [progress, setProgress] = useState<FetchProgress | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+  // Showing cached or previously loaded data while fresh data loads
+  const [refreshing, setRefreshing] = useState(false);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  // Quarters already fetched for the current root type, and the data of each fetch
+  const fetchedQuarters = useRef(new Set<string>());
+  const loadedWindows = useRef(new Map<string, LoadedWindow>());
+  const cacheKey = useRef('');
+  const loadedRootType = useRef<RootWorkItemType | null>(null);
+  const loadInFlight = useRef(false);
+  const refreshInFlight = useRef<AbortController | null>(null);
+
+  const combineWindows = (): TimelineData =>
+    Array.from(loadedWindows.current.values()).reduce(
+      (merged, window) => mergeTimelineData(merged, window.data),
+      { valueStreams: [] } as TimelineData
     );
-  }
 
-  const fn = (svc as any)[fnName];
+  // Compared by value, so a range rebuilt on every render fetches nothing new
+  const rangeStart = visibleRange.timelineStart.getTime();
+  const rangeEnd = visibleRange.timelineEnd.getTime();
 
-  if (isDev) {
-    const orgUrl = env.REACT_APP_AZDO_ORG_URL;
-    const project = env.REACT_APP_AZDO_PROJECT;
-    const pat = env.REACT_APP_AZDO_PAT;
+  // Fetch everything again from scratch
+  const reload = useCallback(() => setReloadCount(count => count + 1), []);
 
-    if (!orgUrl || !project || !pat) {
-      throw new Error(
-        'Missing Azure DevOps config. Set REACT_APP_AZDO_ORG_URL, REACT_APP_AZDO_PROJECT, REACT_APP_AZDO_PAT in .env'
-      );
-    }
+  useEffect(() => {
+    if (!enabled) return;
 
-    // Try passing rootLevel and iterationFilter in config object
-    try {
-      return await fn({ orgUrl, project, pat, rootLevel: rootWorkItemType, iterationFilter });
-    } catch {
-      // Fallback: try positional parameters
-      try {
-        return await fn(orgUrl, project, pat, rootWorkItemType, iterationFilter);
-      } catch {
-        // Last resort: without iterationFilter for backward compatibility
-        try {
-          return await fn(orgUrl, project, pat, rootWorkItemType);
-        } catch {
-          return await fn(orgUrl, project, pat);
-        }
-      }
+    // A different root type (or an explicit reload) starts from an empty cache
+    const key = `${rootWorkItemType}:${reloadCount}`;
+    const isFreshLoad = cacheKey.current !== key;
+    // A reload keeps the current timeline on screen until the new data is in
+    const keepShowing = isFreshLoad && loadedRootType.current === rootWorkItemType;
+    if (isFreshLoad) {
+      cacheKey.current = key;
+      fetchedQuarters.current = new Set();
+      loadedWindows.current = new Map();
+      refreshInFlight.current?.abort();
     }
-  } else {
-    // Extension/SDK mode
-    const queryGuid = env.REACT_APP_AZDO_QUERY_GUID?.trim();
 
-    if (fnName === 'fetchWorkItems') {
-      try {
-        return await fn({ rootLevel: rootWorkItemType, iterationFilter });
-      } catch (e) {
-        return await fn({ queryId: queryGuid, rootLevel: rootWorkItemType, iterationFilter });
-      }
-    }
+    const missingQuarters = getQuartersInRange(new Date(rangeStart), new Date(rangeEnd), fiscalYearStartMonth)
+      .filter(quarter => !fetchedQuarters.current.has(quarter.key));
 
-    if (fnName === 'fetchWorkItemsFromQueryId' || fnName === 'fetchWorkItemsFromQuery') {
-      if (!queryGuid) {
-        throw new Error(
-          `Service expects a Query GUID (env REACT_APP_AZDO_QUERY_GUID) for ${fnName}, but none was provided.`
-        );
-      }
-      try {
-        return await fn(queryGuid, rootWorkItemType, iterationFilter);
-      } catch {
-        const orgUrl = env.REACT_APP_AZDO_ORG_URL;
-        const project = env.REACT_APP_AZDO_PROJECT;
-        if (!orgUrl || !project) {
-          throw new Error(
-            `fetch by queryId failed. Also missing org/project. ` +
-            `Set REACT_APP_AZDO_ORG_URL and REACT_APP_AZDO_PROJECT or use a service variant that reads SDK context.`
-          );
-        }
-        return await fn(orgUrl!, project!, queryGuid, rootWorkItemType, iterationFilter);
-      }
+    if (missingQuarters.length === 0) {
+      setLoading(false);
+      setLoadingQuarters(false);
+      return;
     }
 
-    // Fallback generic call
-    return await fn();
-  }
-}
-
-export const useTimelineData = (rootWorkItemType: RootWorkItemType = 'Epic') => {
-  const [data, setData] = useState<TimelineData>({ valueStreams: [] });
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+    let cancelled = false;
+    const abortController = new AbortController();
+    const windowKey = `${missingQuarters[0].key}..${missingQuarters[missingQuarters.length - 1].key}`;
+    const windowStart = missingQuarters[0].start;
+    const windowEnd = missingQuarters[missingQuarters.length - 1].end;
 
-  useEffect(() => {
     (async () => {
-      setLoading(true);
+      loadInFlight.current = true;
+      if (keepShowing) {
+        setRefreshing(true);
+      } else if (isFreshLoad) {
+        setLoading(true);
+      } else {
+        setLoadingQuarters(true);
+      }
       setError(null);
+      setErrorGuidance(null);
+      setProgress(null);
+      setWarning(null);
+
+      let lastProgress: FetchProgress | null = null;
+      const handleProgress = (next: FetchProgress) => {
+        lastProgress = next;
+        if (!cancelled) setProgress(next);
+      };
+
+      let showingCachedData = keepShowing;
+      let storageKey: string | null = null;
+      let dataSource: TimelineDataSource | null = null;
 
       try {
-        const isDev =
-          process.env.NODE_ENV === 'development' ||
-          !window.location.hostname.includes('dev.azure.com');
-
-        console.log(`[useTimelineData] Fetching with root type: ${rootWorkItemType}`);
-
-        // Use current iteration context by default (current -1, current, current +1)
-        const valueStreams = await fetchValueStreamsAuto(
-          isDev, 
-          {
-            REACT_APP_AZDO_ORG_URL: process.env.REACT_APP_AZDO_ORG_URL,
-            REACT_APP_AZDO_PROJECT: process.env.REACT_APP_AZDO_PROJECT,
-            REACT_APP_AZDO_PAT: process.env.REACT_APP_AZDO_PAT,
-            REACT_APP_AZDO_QUERY_GUID: process.env.REACT_APP_AZDO_QUERY_GUID,
-          }, 
-          rootWorkItemType,
-          { useCurrentIterationContext: true } // Use current iteration context
+        dataSource = getConfiguredDataSource();
+        console.log(
+          `[useTimelineData] Fetching ${rootWorkItemType} from ${dataSource.name} for ${missingQuarters.map(q => q.key).join(', ')}`
         );
 
-        console.log('[useTimelineData] Raw valueStreams:', valueStreams);
+        // Show the last timeline saved for this source, root type and window
+        // right away, then revalidate it below
+        const cacheScope = await dataSource.getCacheScope().catch(() => null);
 
-        if (!Array.isArray(valueStreams)) {
-          throw new Error(
-            `Invalid data format: expected an array of value streams, got ${typeof valueStreams}`
-          );
+        if (cacheScope) {
+          storageKey = `timeline:${dataSource.id}:${cacheScope}:${rootWorkItemType}:${windowKey}`;
+
+          if (!keepShowing) {
+            const cached = await readCache<TimelineData>(storageKey, TIMELINE_CACHE_MAX_AGE_MS);
+            if (cancelled) return;
+            if (cached) {
+              console.log(`[useTimelineData] Showing cached timeline from ${new Date(cached.savedAt).toLocaleString()}`);
+              loadedWindows.current.set(windowKey, {
+                start: windowStart,
+                end: windowEnd,
+                storageKey,
+                data: cached.value,
+              });
+              setData(combineWindows());
+              setLoading(false);
+              setLoadingQuarters(false);
+              setRefreshing(true);
+              showingCachedData = true;
+            }
+          }
         }
 
-        const transformed = transformLegacyData({ valueStreams });
-        setData(transformed);
+        // Only the quarters not fetched yet
+        const transformed = await dataSource.fetch({
+          rootWorkItemType,
+          startDate: windowStart,
+          endDate: windowEnd,
+          onProgress: handleProgress,
+          signal: abortController.signal,
+        });
+
+        // Navigation moved on (or the root type changed) while this was in flight
+        if (cancelled) return;
+        // Replaces the cached copy; expanded items and scroll position live in
+        // TimelineView and are kept because the items keep their ids
+        loadedWindows.current.set(windowKey, {
+          start: windowStart,
+          end: windowEnd,
+          storageKey,
+          data: transformed,
+        });
+        loadedRootType.current = rootWorkItemType;
+        missingQuarters.forEach(quarter => fetchedQuarters.current.add(quarter.key));
+        setData(combineWindows());
+        setLastUpdated(new Date());
+        if (storageKey) void writeCache(storageKey, transformed);
+
+        const finalProgress = lastProgress as FetchProgress | null;
+        if (finalProgress && finalProgress.failed > 0) {
+          setWarning(
+            `${finalProgress.failed} of ${finalProgress.total} work items could not be loaded and are missing from the timeline.`
+          );
+        }
       } catch (e: any) {
+        if (cancelled) return;
         const message = e?.message || 'Unknown error';
         console.error('[useTimelineData] Error fetching work items:', e);
+        if (showingCachedData) {
+          // Keep the saved timeline on screen rather than replacing it with an error
+          setWarning(`Could not refresh the timeline (${message}). Showing previously loaded data.`);
+          return;
+        }
         setError(message);
-        setData({ valueStreams: [] });
+        setErrorGuidance((isRequestError(e) && dataSource?.errorGuidance?.[e.kind]) || null);
+        setData(combineWindows());
       } finally {
-        setLoading(false);
+        if (!cancelled) {
+          loadInFlight.current = false;
+          setLoading(false);
+          setLoadingQuarters(false);
+          setRefreshing(false);
+        }
       }
     })();
-  }, [rootWorkItemType]); // Re-fetch when rootWorkItemType changes
 
-  return { data, loading, error };
-};
\ No newline at end of file
+    return () => {
+      cancelled = true;
+      loadInFlight.current = false;
+      abortController.abort();
+    };
+  }, [rootWorkItemType, enabled, reloadCount, rangeStart, rangeEnd, fiscalYearStartMonth]); // Re-fetch on root type change or when new quarters come into view
+
+  // Bring every loaded window up to date with only the work items changed
+  // since it was fetched. The timeline stays on screen meanwhile.
+  const refresh = useCallback(async () => {
+    if (loadInFlight.current || refreshInFlight.current || loadedWindows.current.size === 0) return;
+
+    const abortController = new AbortController();
+    refreshInFlight.current = abortController;
+    const key = cacheKey.current;
+    setRefreshing(true);
+
+    try {
+      const dataSource = getConfiguredDataSource();
+
+      for (const [windowKey, window] of Array.from(loadedWindows.current.entries())) {
+        const transformed = await dataSource.refresh({
+          rootWorkItemType,
+          startDate: window.start,
+          endDate: window.end,
+          signal: abortController.signal,
+        });
+        // A reload or another root type took over meanwhile
+        if (abortController.signal.aborted || cacheKey.current !== key) return;
+
+        loadedWindows.current.set(windowKey, { ...window, data: transformed });
+        if (window.storageKey) void writeCache(window.storageKey, transformed);
+      }
+
+      setData(combineWindows());
+      setLastUpdated(new Date());
+      setWarning(null);
+    } catch (e: any) {
+      if (abortController.signal.aborted) return;
+      console.error('[useTimelineData] Error refreshing work items:', e);
+      setWarning(`Could not refresh the timeline (${e?.message || 'Unknown error'}). Showing previously loaded data.`);
+    } finally {
+      if (refreshInFlight.current === abortController) {
+        refreshInFlight.current = null;
+        setRefreshing(false);
+      }
+    }
+  }, [rootWorkItemType]);
+
+  useEffect(() => {
+    if (!enabled || autoRefreshMinutes <= 0) return;
+
+    const timer = window.setInterval(() => {
+      void refresh();
+    }, autoRefreshMinutes * 60 * 1000);
+    return () => window.clearInterval(timer);
+  }, [enabled, autoRefreshMinutes, refresh]);
+
+  // Stop a refresh that is still running when the timeline goes away
+  useEffect(() => () => refreshInFlight.current?.abort(), []);
+
+  return {
+    data,
+    loading,
+    loadingQuarters,
+    refreshing,
+    lastUpdated,
+    error,
+    errorGuidance,
+    progress,
+    warning,
+    reload,
+    refresh,
+  };
+};
@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { UnscheduledWorkItem } from '../utils/dataAdapter';
+import type { IterationOption } from '../types/dataSource.types';
+import { getConfiguredDataSource } from '../services/data-source-registry';
+
+/**
+ * Iterations to schedule into, and whether the user may edit the given
+ * unscheduled items. Only loads while enabled (the panel is open).
+ */
+export const useWorkItemScheduling = (items: UnscheduledWorkItem[], enabled: boolean) => {
+  const [iterations, setIterations] = useState<IterationOption[]>([]);
+  const [canSchedule, setCanSchedule] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || items.length === 0) return;
+
+    let cancelled = false;
+
+    (async () => {
+      setLoading(true);
+      try {
+        // Sources that can't write iterations back only list the items
+        const scheduling = getConfiguredDataSource().scheduling;
+        const available = scheduling ? await scheduling.getIterations() : [];
+
+        // Validate-only update of the first item, reusing its current iteration
+        const probe = items[0];
+        const writable =
+          !!scheduling &&
+          available.length > 0 &&
+          (await scheduling.canSchedule(probe.id, probe.iterationPath || available[0].path));
+
+        if (!cancelled) {
+          setIterations(available);
+          setCanSchedule(writable);
+        }
+      } catch (e) {
+        console.error('[useWorkItemScheduling] Error loading iterations:', e);
+        if (!cancelled) {
+          setIterations([]);
+          setCanSchedule(false);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, items]);
+
+  const schedule = useCallback(async (workItemId: string, iterationPath: string) => {
+    const scheduling = getConfiguredDataSource().scheduling;
+    if (!scheduling) {
+      throw new Error('This data source does not support scheduling work items');
+    }
+    await scheduling.schedule(workItemId, iterationPath);
+  }, []);
+
+  return { iterations, canSchedule, loading, schedule };
+};
@@ -4,7 +4,8 @@ import { TimelineView } from '@components/timeline/TimelineView';
 import { SettingsProvider } from '@components/timeline/SettingsContext';
 import { MilestoneProvider } from './components/timeline/MilestoneContext';
 
-const isAzureDevOpsContext = typeof window !== 'undefined' && (window as any).SDK;
+// Hub contributions are loaded in an iframe of the Azure DevOps page
+const isAzureDevOpsContext = typeof window !== 'undefined' && window.self !== window.top;
 
 const App = () => (
   <MilestoneProvider>
@@ -0,0 +1,140 @@
+// azure-devops-data-source.ts - Azure DevOps Boards as a timeline data source
+
+import type { ErrorGuidance, TimelineDataSource, TimelineFetchRequest } from '../types/dataSource.types';
+import type { ConnectionConfig } from './azure-devops-service';
+import type { RequestErrorKind } from './http-request';
+import type { ProjectSettings, ValueStreamGrouping } from '../types/settings.types';
+import { transformLegacyData } from '../utils/dataAdapter';
+
+export const AZURE_DEVOPS_DATA_SOURCE_ID = 'azure-devops';
+
+/**
+ * Inside Azure DevOps the extension is served in an iframe of the host page
+ * and uses the SDK context. Anywhere else (local development) it connects
+ * with the PAT settings from .env.
+ */
+function isStandalone(): boolean {
+  return process.env.NODE_ENV === 'development' || window.self === window.top;
+}
+
+function getConnectionConfig(): ConnectionConfig {
+  if (!isStandalone()) return {};
+
+  const orgUrl = process.env.REACT_APP_AZDO_ORG_URL;
+  const project = process.env.REACT_APP_AZDO_PROJECT;
+  const pat = process.env.REACT_APP_AZDO_PAT;
+
+  if (!orgUrl || !project || !pat) {
+    throw new Error(
+      'Missing Azure DevOps config. Set REACT_APP_AZDO_ORG_URL, REACT_APP_AZDO_PROJECT, REACT_APP_AZDO_PAT in .env'
+    );
+  }
+
+  return { orgUrl, project, pat };
+}
+
+const GROUPINGS: ValueStreamGrouping[] = ['areaPath', 'tagPrefix', 'field', 'team', 'none'];
+
+/**
+ * Value stream grouping from .env for PAT connections; the hub reads the
+ * saved Timeline Settings instead
+ */
+function getLocalProjectSettings(): Partial<ProjectSettings> | undefined {
+  if (!isStandalone()) return undefined;
+
+  const grouping = process.env.REACT_APP_AZDO_GROUP_BY as ValueStreamGrouping | undefined;
+  const areaDepth = Number(process.env.REACT_APP_AZDO_AREA_DEPTH);
+
+  return {
+    ...(grouping && GROUPINGS.includes(grouping) && { valueStreamGrouping: grouping }),
+    ...(areaDepth > 0 && { valueStreamAreaDepth: Math.floor(areaDepth) }),
+    ...(process.env.REACT_APP_AZDO_TAG_PREFIX && { valueStreamTagPrefix: process.env.REACT_APP_AZDO_TAG_PREFIX }),
+    ...(process.env.REACT_APP_AZDO_GROUP_FIELD && { valueStreamField: process.env.REACT_APP_AZDO_GROUP_FIELD }),
+  };
+}
+
+const ERROR_GUIDANCE: Partial<Record<RequestErrorKind, ErrorGuidance>> = {
+  auth: {
+    title: 'Sign-in Required',
+    action: 'Azure DevOps rejected the credentials. Reload the page to sign in again. In local development, create a new Personal Access Token with Work Items (Read & write) scope and update REACT_APP_AZDO_PAT.',
+  },
+  permission: {
+    title: 'Access Denied',
+    action: 'You do not have permission to read these work items. Ask a project administrator for access to the project, its area paths or the saved query.',
+  },
+  notFound: {
+    title: 'Not Found',
+    action: 'The project or saved query could not be found. Check the Query GUID in Project Settings → Timeline Settings, and the project name in local development.',
+  },
+  throttled: {
+    title: 'Too Many Requests',
+    action: 'Azure DevOps is rate limiting requests from your account. Wait a minute, then reload the page.',
+  },
+  network: {
+    title: 'Cannot Reach Azure DevOps',
+    action: 'Check your network connection or VPN. In local development, also check REACT_APP_AZDO_ORG_URL.',
+  },
+  server: {
+    title: 'Azure DevOps Error',
+    action: 'Azure DevOps could not complete the request. Try again in a few minutes.',
+  },
+};
+
+
+// The service is loaded on first use so it stays out of the initial bundle
+const loadService = () => import('./azure-devops-service');
+
+export function createAzureDevOpsDataSource(): TimelineDataSource {
+  const load = async (request: TimelineFetchRequest, incremental: boolean) => {
+    const svc = await loadService();
+    // Without a GUID here the service falls back to the one saved in Timeline Settings
+    const queryId = process.env.REACT_APP_AZDO_QUERY_GUID?.trim() || undefined;
+
+    const valueStreams = await svc.fetchWorkItems({
+      ...getConnectionConfig(),
+      rootLevel: request.rootWorkItemType,
+      iterationFilter: { startDate: request.startDate, endDate: request.endDate },
+      queryId,
+      onProgress: request.onProgress,
+      signal: request.signal,
+      incremental,
+      projectSettings: getLocalProjectSettings(),
+    });
+
+    return transformLegacyData({ valueStreams });
+  };
+
+  return {
+    id: AZURE_DEVOPS_DATA_SOURCE_ID,
+    name: 'Azure DevOps',
+    capabilities: {
+      incrementalRefresh: true,
+      scheduling: true,
+    },
+    errorGuidance: ERROR_GUIDANCE,
+    async getCacheScope() {
+      const svc = await loadService();
+      return svc.getProjectKey(getConnectionConfig());
+    },
+    fetch: request => load(request, false),
+    refresh: request => load(request, true),
+    scheduling: {
+      async getIterations() {
+        const svc = await loadService();
+        return svc.getSchedulableIterations(getConnectionConfig());
+      },
+      async canSchedule(workItemId: string, iterationPath: string) {
+        const svc = await loadService();
+        return svc.canScheduleWorkItem(workItemId, iterationPath, getConnectionConfig());
+      },
+      async schedule(workItemId: string, iterationPath: string) {
+        const svc = await loadService();
+        await svc.scheduleWorkItem(workItemId, iterationPath, getConnectionConfig());
+      },
+    },
+    async getIterationCalendar() {
+      const svc = await loadService();
+      return svc.getCalendarIterations(getConnectionConfig());
+    },
+  };
+}
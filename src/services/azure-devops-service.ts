@@ -1,175 +1,399 @@
 // azure-devops-service.ts - Optimized with unified query approach
 
-export type { Epic, Feature, ValueStream } from '@types/timeline.types';
+export type { Epic, Feature, ValueStream } from '../types/timeline.types';
+export type { FetchProgress, FetchProgressCallback, IterationOption } from '../types/dataSource.types';
 
 import * as SDK from 'azure-devops-extension-sdk';
-import { WorkItemTrackingRestClient, TreeStructureGroup } from 'azure-devops-extension-api/WorkItemTracking';
+import {
+  WorkItemTrackingRestClient,
+  TreeStructureGroup,
+  WorkItemBatchGetRequest,
+  WorkItemErrorPolicy,
+} from 'azure-devops-extension-api/WorkItemTracking';
+import { WorkRestClient } from 'azure-devops-extension-api/Work';
+import { CoreRestClient, TeamContext } from 'azure-devops-extension-api/Core';
 import { getClient } from 'azure-devops-extension-api';
+import { isRequestError, requestJson, withRetry } from './http-request';
+import { IterationCalendar, loadIterationCalendar } from './iteration-calendar-service';
+import type { UnscheduledWorkItem, ValueStreamData } from '../utils/dataAdapter';
+import type { FetchProgress, FetchProgressCallback, IterationOption } from '../types/dataSource.types';
+import {
+  DateSourceStrategy,
+  DEFAULT_PROJECT_SETTINGS,
+  ProjectSettings,
+  RootWorkItemType,
+} from '../types/settings.types';
+import { loadProjectSettings, saveProjectSettings } from './project-settings-service';
+import {
+  BacklogLevel,
+  DEFAULT_BACKLOG_LEVELS,
+  buildBacklogLevels,
+  getBacklogLevelIndex,
+  getChildBacklogLevel,
+} from '../utils/backlogHierarchy';
+import { isCompletedState, isRemovedState } from '../utils/stateCategories';
+import { calculateTimelineRange } from '../utils/dateHelpers';
+import {
+  GroupingOptions,
+  LaneGroup,
+  TeamArea,
+  disambiguateLaneNames,
+  getLaneGroup,
+} from '../utils/valueStreamGrouping';
+import {
+  WiqlCondition,
+  WorkItemFilter,
+  and,
+  buildFilterCondition,
+  buildLinksQuery,
+  buildWorkItemsQuery,
+  dateRangeOverlaps,
+  equals,
+  greaterThan,
+  hasNoDates,
+  inList,
+  or,
+  wiqlField,
+} from '../utils/wiqlBuilder';
 
-type RootWorkItemType = 'Epic' | 'Feature';
-type WorkItemType = 'Epic' | 'Feature' | 'User Story' | 'Task' | 'Bug';
+
+const WORK_ITEM_FIELDS = [
+  'System.Id',
+  'System.Title',
+  'System.IterationPath',
+  'System.AreaPath',
+  'System.Tags',
+  'System.State',
+  'System.WorkItemType',
+  'System.TeamProject',
+  'System.Parent',
+  'Microsoft.VSTS.Scheduling.StartDate',
+  'Microsoft.VSTS.Scheduling.TargetDate',
+];
+
+const HIERARCHY_FORWARD = 'System.LinkTypes.Hierarchy-Forward';
+
+/**
+ * Fields to fetch, plus the one value streams are grouped by
+ */
+function getWorkItemFields(projectSettings: ProjectSettings): string[] {
+  const groupingField = projectSettings.valueStreamField.trim();
+  return projectSettings.valueStreamGrouping === 'field' && groupingField && !WORK_ITEM_FIELDS.includes(groupingField)
+    ? [...WORK_ITEM_FIELDS, groupingField]
+    : WORK_ITEM_FIELDS;
+}
+
+// workitemsbatch accepts at most 200 IDs per request
+const WORK_ITEM_BATCH_SIZE = 200;
+const MAX_PARALLEL_REQUESTS = 4;
+
+/**
+ * The Work Item Tracking calls the unified pipeline depends on.
+ * Dev mode talks REST with a PAT, the hub goes through WorkItemTrackingRestClient.
+ */
+interface WorkItemTrackingSource {
+  // Organization URL or host name, scopes persisted caches
+  organization: string;
+  project: string;
+  // timePrecision compares dates to the second instead of the day
+  queryWiql(query: string, timePrecision?: boolean): Promise<{ workItems?: any[]; workItemRelations?: any[] }>;
+  runSavedQuery(queryId: string): Promise<{ workItems?: any[]; workItemRelations?: any[] }>;
+  getWorkItems(ids: number[], fields: string[]): Promise<any[]>;
+  getIterationTree(): Promise<any>;
+  getBacklogConfiguration(): Promise<any>;
+  getWorkItemTypeStates(workItemType: string): Promise<{ name: string; category: string }[]>;
+  // Work items in the project's recycle bin
+  getDeletedWorkItemIds(): Promise<number[]>;
+  // Area paths owned by each team of the project
+  getTeamAreas(): Promise<TeamArea[]>;
+  // validateOnly checks the edit (and the caller's permission) without saving
+  updateIterationPath(workItemId: number, iterationPath: string, validateOnly?: boolean): Promise<void>;
+}
+
+const toIsoDate = (date: Date) => date.toISOString().split('T')[0];
+
+// Teams of very large projects beyond this are left out of team grouping
+const MAX_TEAMS = 1000;
 
 /**
- * Get iterations for the entire current year
+ * A team's field values as area paths. Processes with a custom team field
+ * can't be matched against area paths, so their teams own nothing.
  */
-async function getCurrentYearIterations(
+function toTeamAreas(team: string, fieldValues: any): TeamArea[] {
+  const teamField = fieldValues?.field?.referenceName;
+  if (teamField && teamField !== 'System.AreaPath') {
+    console.warn(`Team ${team} uses ${teamField} as its team field, only area paths are supported`);
+    return [];
+  }
+  return (fieldValues?.values || []).map((value: any) => ({
+    team,
+    areaPath: value.value,
+    includeChildren: !!value.includeChildren
+  }));
+}
+
+/**
+ * Team areas of every team, skipping teams whose settings can't be read
+ */
+async function collectTeamAreas(
+  teams: { id: string; name: string }[],
+  getFieldValues: (team: { id: string; name: string }) => Promise<any>
+): Promise<TeamArea[]> {
+  const results = await mapWithConcurrency(teams, MAX_PARALLEL_REQUESTS, getFieldValues);
+  return results.flatMap((result, index) => {
+    if (result.status === 'rejected') {
+      console.warn(`Could not read the areas of team ${teams[index].name}:`, result.reason);
+      return [];
+    }
+    return toTeamAreas(teams[index].name, result.value);
+  });
+}
+
+const iterationPathPatch = (iterationPath: string) => [
+  { op: 'add', path: '/fields/System.IterationPath', value: iterationPath }
+];
+
+/**
+ * REST source authenticated with a Personal Access Token (local development)
+ */
+function createRestSource(
   orgUrl: string,
   project: string,
-  headers: any
-): Promise<string[]> {
-  try {
-    console.log('Fetching current year iterations...');
-    
-    // Fetch all iterations with dates
-    const classificationNodesUrl = `${orgUrl}/${project}/_apis/wit/classificationnodes/iterations?$depth=10&api-version=7.0`;
-    const response = await fetch(classificationNodesUrl, { headers });
-    const data = await response.json();
-    
-    const iterationMap = extractIterationsFromNode(data, project);
-    const now = new Date();
-    const currentYear = now.getFullYear();
-    
-    // Find all iterations in the current year
-    const iterationsWithDates: Array<{
-      path: string;
-      startDate: Date;
-      finishDate: Date;
-    }> = [];
-    
-    iterationMap.forEach((dates, path) => {
-      // Skip parent/root paths without dates
-      if (dates.startDate && dates.finishDate) {
-        const startDate = new Date(dates.startDate);
-        const finishDate = new Date(dates.finishDate);
-        const startYear = startDate.getFullYear();
-        const endYear = finishDate.getFullYear();
-        
-        // Include iteration if it overlaps with current year
-        if (startYear === currentYear || endYear === currentYear) {
-          iterationsWithDates.push({
-            path: path,
-            startDate: startDate,
-            finishDate: finishDate
-          });
-        }
-      }
-    });
-    
-    // Sort by start date
-    iterationsWithDates.sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
-    
-    if (iterationsWithDates.length === 0) {
-      console.log(`No iterations found for year ${currentYear}`);
-      return [];
+  pat: string,
+  signal?: AbortSignal
+): WorkItemTrackingSource {
+  const auth = btoa(`:${pat}`);
+  const headers = {
+    'Authorization': `Basic ${auth}`,
+    'Content-Type': 'application/json'
+  };
+  const options = { signal };
+
+  return {
+    organization: orgUrl,
+    project,
+    queryWiql(query: string, timePrecision = false) {
+      const wiqlUrl = `${orgUrl}/${project}/_apis/wit/wiql?timePrecision=${timePrecision}&api-version=7.0`;
+      return requestJson(wiqlUrl, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ query })
+      }, options);
+    },
+    runSavedQuery(queryId: string) {
+      const savedQueryUrl = `${orgUrl}/${project}/_apis/wit/wiql/${queryId}?api-version=7.0`;
+      return requestJson(savedQueryUrl, { headers }, options);
+    },
+    async getWorkItems(ids: number[], fields: string[]) {
+      const batchUrl = `${orgUrl}/${project}/_apis/wit/workitemsbatch?api-version=7.0`;
+      const data = await requestJson(batchUrl, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ ids, fields, errorPolicy: 'omit' })
+      }, options);
+      return data.value;
+    },
+    getIterationTree() {
+      const classificationNodesUrl = `${orgUrl}/${project}/_apis/wit/classificationnodes/iterations?$depth=10&api-version=7.0`;
+      return requestJson(classificationNodesUrl, { headers }, options);
+    },
+    getBacklogConfiguration() {
+      const backlogConfigurationUrl = `${orgUrl}/${project}/_apis/work/backlogconfiguration?api-version=7.0`;
+      return requestJson(backlogConfigurationUrl, { headers }, options);
+    },
+    async getWorkItemTypeStates(workItemType: string) {
+      const statesUrl = `${orgUrl}/${project}/_apis/wit/workitemtypes/${encodeURIComponent(workItemType)}/states?api-version=7.0`;
+      const data = await requestJson(statesUrl, { headers }, options);
+      return data.value;
+    },
+    async getDeletedWorkItemIds() {
+      const recycleBinUrl = `${orgUrl}/${project}/_apis/wit/recyclebin?api-version=7.0`;
+      const data = await requestJson(recycleBinUrl, { headers }, options);
+      return (data.value || []).map((ref: any) => ref.id);
+    },
+    async getTeamAreas() {
+      const teamsUrl = `${orgUrl}/_apis/projects/${encodeURIComponent(project)}/teams?$top=${MAX_TEAMS}&api-version=7.0`;
+      const teams = await requestJson(teamsUrl, { headers }, options);
+      return collectTeamAreas(teams.value || [], team => {
+        const fieldValuesUrl = `${orgUrl}/${project}/${team.id}/_apis/work/teamsettings/teamfieldvalues?api-version=7.0`;
+        return requestJson(fieldValuesUrl, { headers }, options);
+      });
+    },
+    async updateIterationPath(workItemId: number, iterationPath: string, validateOnly = false) {
+      const updateUrl = `${orgUrl}/${project}/_apis/wit/workitems/${workItemId}?validateOnly=${validateOnly}&api-version=7.0`;
+      await requestJson(updateUrl, {
+        method: 'PATCH',
+        headers: { ...headers, 'Content-Type': 'application/json-patch+json' },
+        body: JSON.stringify(iterationPathPatch(iterationPath))
+      }, { ...options, maxRetries: 0 });
     }
-    
-    // Get all iteration paths
-    const iterationPaths = iterationsWithDates.map(iter => {
-      console.log(`Including iteration: ${iter.path} (${iter.startDate.toISOString().split('T')[0]} to ${iter.finishDate.toISOString().split('T')[0]})`);
-      return iter.path;
-    });
-    
-    console.log(`Found ${iterationPaths.length} iterations for year ${currentYear}`);
-    return iterationPaths;
-    
-  } catch (error) {
-    console.error('Error fetching current year iterations:', error);
-    return [];
+  };
+}
+
+/**
+ * SDK source for the installed extension. Organization and project come from
+ * the host page, requests carry the host's access token.
+ */
+async function createSdkSource(signal?: AbortSignal): Promise<WorkItemTrackingSource> {
+  await SDK.ready();
+
+  const host = SDK.getHost();
+  const webContext = SDK.getWebContext();
+  if (!webContext.project) {
+    throw new Error('No project context available. Open the Timeline from a project hub.');
   }
+  const project = webContext.project.name;
+  console.log(`Using SDK context: ${host.name}/${project}`);
+
+  const clientOptions = {
+    authTokenProvider: {
+      getAuthorizationHeader: async () => `Bearer ${await SDK.getAccessToken()}`
+    }
+  };
+  const client = getClient(WorkItemTrackingRestClient, clientOptions);
+  const workClient = getClient(WorkRestClient, clientOptions);
+  const coreClient = getClient(CoreRestClient, clientOptions);
+  const team = SDK.getTeamContext();
+  const teamContext: TeamContext = {
+    project,
+    projectId: webContext.project.id,
+    team: team?.name || '',
+    teamId: team?.id || ''
+  };
+
+  // The REST clients can't be aborted mid-request; withRetry stops between attempts
+  const options = { signal };
+
+  return {
+    organization: host.name,
+    project,
+    queryWiql: (query: string, timePrecision = false) =>
+      withRetry(() => client.queryByWiql({ query }, project, undefined, timePrecision), options),
+    runSavedQuery: (queryId: string) =>
+      withRetry(() => client.queryById(queryId, project), options),
+    getWorkItems: (ids: number[], fields: string[]) =>
+      withRetry(() => client.getWorkItemsBatch(
+        { ids, fields, errorPolicy: WorkItemErrorPolicy.Omit } as WorkItemBatchGetRequest,
+        project
+      ), options),
+    getIterationTree: () =>
+      withRetry(
+        () => client.getClassificationNode(project, TreeStructureGroup.Iterations, undefined, 10),
+        options
+      ),
+    getBacklogConfiguration: () =>
+      withRetry(() => workClient.getBacklogConfigurations(teamContext), options),
+    getWorkItemTypeStates: (workItemType: string) =>
+      withRetry(() => client.getWorkItemTypeStates(project, workItemType), options),
+    getDeletedWorkItemIds: async () => {
+      const refs = await withRetry(() => client.getDeletedWorkItemShallowReferences(project), options);
+      return refs.map(ref => ref.id);
+    },
+    getTeamAreas: async () => {
+      const projectId = webContext.project!.id;
+      const teams = await withRetry(() => coreClient.getTeams(projectId, false, MAX_TEAMS), options);
+      return collectTeamAreas(teams, projectTeam =>
+        withRetry(() => workClient.getTeamFieldValues({
+          project,
+          projectId,
+          team: projectTeam.name,
+          teamId: projectTeam.id
+        }), options)
+      );
+    },
+    updateIterationPath: async (workItemId: number, iterationPath: string, validateOnly = false) => {
+      await withRetry(
+        () => client.updateWorkItem(iterationPathPatch(iterationPath), workItemId, project, validateOnly),
+        { ...options, maxRetries: 0 }
+      );
+    }
+  };
+}
+
+/**
+ * The project's iteration calendar, shared by every step of a load and
+ * persisted between loads
+ */
+function getIterationCalendar(source: WorkItemTrackingSource): Promise<IterationCalendar> {
+  return loadIterationCalendar(
+    `${source.organization}/${source.project}`,
+    source.project,
+    () => source.getIterationTree()
+  );
 }
 
 /**
  * Returns the start of the previous quarter
  * and the end of two quarters after the current one.
  */
-export function getQuarterRange(referenceDate: Date = new Date()): {
+export function getQuarterRange(referenceDate: Date = new Date(), fiscalYearStartMonth: number = 1): {
   previousQuarterStart: Date;
   twoQuartersAfterEnd: Date;
 } {
-  const year = referenceDate.getFullYear();
-  const month = referenceDate.getMonth(); // 0-based
-
-  // Determine current quarter (1–4)
-  const currentQuarter = Math.floor(month / 3) + 1;
-
-  // Helper to convert quarter offset to actual year/quarter pair
-  const shiftQuarter = (q: number, offset: number) => {
-    let newQ = q + offset;
-    let newY = year;
-    while (newQ < 1) { newQ += 4; newY--; }
-    while (newQ > 4) { newQ -= 4; newY++; }
-    return { q: newQ, y: newY };
-  };
-
-  // 1️⃣ previous quarter start
-  const prev = shiftQuarter(currentQuarter, -1);
-  const prevStartMonth = (prev.q - 1) * 3;
-  const previousQuarterStart = new Date(prev.y, prevStartMonth, 1);
-
-  // 2️⃣ two quarters after end
-  const after = shiftQuarter(currentQuarter, +2);
-  const afterEndMonth = after.q * 3; // month after the quarter ends
-  const twoQuartersAfterEnd = new Date(after.y, afterEndMonth, 0); // day 0 ⇒ last day prev month
-
-  return { previousQuarterStart, twoQuartersAfterEnd };
+  const { timelineStart, timelineEnd } = calculateTimelineRange(0, fiscalYearStartMonth, referenceDate);
+  return { previousQuarterStart: timelineStart, twoQuartersAfterEnd: timelineEnd };
 }
 
-
 /**
  * Get current, previous, and next iteration paths for filtering
  */
 async function getCurrentIterationContext(
-  orgUrl: string,
-  project: string,
-  headers: any
+  source: WorkItemTrackingSource,
+  fiscalYearStartMonth: number
 ): Promise<string[]> {
   try {
     console.log('Fetching current iteration context...');
     
-    // Fetch all iterations with dates
-    const classificationNodesUrl = `${orgUrl}/${project}/_apis/wit/classificationnodes/iterations?$depth=10&api-version=7.0`;
-    const response = await fetch(classificationNodesUrl, { headers });
-    const data = await response.json();
-    
-    const iterationMap = extractIterationsFromNode(data, project);
-    const now = new Date();
-    
-    // Find all iterations and sort by start date
-    const iterationsWithDates: Array<{
-      path: string;
-      startDate: Date;
-      finishDate: Date;
-    }> = [];
-    
-    let { previousQuarterStart, twoQuartersAfterEnd } = getQuarterRange(now);
-    let { timelineStart, timelineEnd } = { timelineStart: now, timelineEnd: now };
-    const iterationPaths: string[] = [];
-
-    iterationMap.forEach((dates, path) => {
-      // Skip parent/root paths without dates
-      if (dates.startDate && dates.finishDate) {
-        timelineStart = new Date(dates.startDate);
-        timelineEnd = new Date(dates.finishDate);
-        if (timelineStart >= previousQuarterStart && timelineEnd <= twoQuartersAfterEnd) {
-            console.log(`Including iteration for context check: ${path}`);
-            iterationPaths.push(path);
-        }   
-      }
-    });
+    const calendar = await getIterationCalendar(source);
+    const { previousQuarterStart, twoQuartersAfterEnd } = getQuarterRange(new Date(), fiscalYearStartMonth);
+
+    // Iterations that fall entirely inside the window
+    const iterationPaths = calendar.iterations
+      .filter(iteration =>
+        new Date(iteration.startDate) >= previousQuarterStart &&
+        new Date(iteration.finishDate) <= twoQuartersAfterEnd
+      )
+      .map(iteration => iteration.path);
     
     console.log(`Found ${iterationPaths.length} iterations for context (prev, current, next)`);
     return iterationPaths;
     
   } catch (error) {
+    // Request failures (auth, throttling, ...) would otherwise look like an empty timeline
+    if (isRequestError(error)) throw error;
     console.error('Error fetching current iteration context:', error);
     return [];
   }
 }
 
+/**
+ * Iteration paths whose dates overlap the given range, e.g. the quarters
+ * visible on the timeline
+ */
+async function getIterationsInRange(
+  source: WorkItemTrackingSource,
+  rangeStart: Date,
+  rangeEnd: Date
+): Promise<string[]> {
+  try {
+    const calendar = await getIterationCalendar(source);
+    const iterationPaths = calendar
+      .getIterationsOverlapping(rangeStart, rangeEnd)
+      .map(iteration => iteration.path);
+
+    console.log(`Found ${iterationPaths.length} iterations between ${toIsoDate(rangeStart)} and ${toIsoDate(rangeEnd)}`);
+    return iterationPaths;
+  } catch (error) {
+    if (isRequestError(error)) throw error;
+    console.error('Error fetching iterations for range:', error);
+    return [];
+  }
+}
+
 /**
  * Options for filtering work items by iteration
  */
-interface IterationFilterOptions {
+export interface IterationFilterOptions {
   // Filter by specific iteration paths (e.g., "ProjectName\\Sprint 1")
   iterationPaths?: string[];
   
@@ -179,43 +403,57 @@ interface IterationFilterOptions {
   // Use entire current year's iterations
   useCurrentYearIterations?: boolean;
   
-  // Filter by date range - only include root items with iterations in this range
+  // Filter by date range - only include root items with iterations in this range.
+  // Without iterationPaths, the paths overlapping the range are looked up.
   startDate?: Date;
   endDate?: Date;
   
   // Include items with any iteration (not empty)
   requireIteration?: boolean;
+
+  // Also accept roots whose Start Date / Target Date fields overlap this range
+  dateFieldRange?: { start: Date; end: Date };
+
+  // Also load roots without Start Date / Target Date that are still in the
+  // project's root iteration, so undated work reaches the Unscheduled panel.
+  // They match no window and are fetched with a query of their own.
+  includeUndated?: boolean;
 }
 
 /**
  * UNIFIED QUERY BUILDER
  * This single function builds a query that fetches the entire work item tree
- * from the root level down to the specified depth, filtering by iteration
+ * from the root level down to the last level, filtering by iteration
  */
 function buildWorkItemTreeQuery(
   project: string,
-  rootWorkItemType: RootWorkItemType,
+  rootWorkItemTypes: string | string[],
   iterationFilter?: IterationFilterOptions,
-  maxDepth: number = 3
+  // Closed roots are left out, see getClosedStates
+  excludeStates: string[] = FALLBACK_CLOSED_STATES
 ): string {
   // Build the recursive tree query using WorkItemLinks
   // This fetches ALL levels in a single query
   
-  const stateFilter = `AND [Source].[System.State] <> 'Closed' AND [Source].[System.State] <> 'Removed'`;
+  const rootFilter: WorkItemFilter = {
+    project,
+    workItemTypes: Array.isArray(rootWorkItemTypes) ? rootWorkItemTypes : [rootWorkItemTypes],
+    excludeStates
+  };
   
-  // Build iteration filter based on options
-  let iterationFilterClause = '';
+  // Build iteration filter based on options: specific iteration paths
+  // and/or Start Date / Target Date in range
+  let windowCondition: WiqlCondition = '';
   
   if (iterationFilter) {
-    if (iterationFilter.iterationPaths && iterationFilter.iterationPaths.length > 0) {
-      // Filter by specific iteration paths
-      const pathConditions = iterationFilter.iterationPaths
-        .map(path => `[Source].[System.IterationPath] = '${path}'`)
-        .join(' OR ');
-      iterationFilterClause = `AND (${pathConditions})`;
-    } else if (iterationFilter.requireIteration !== false) {
+    windowCondition = or(
+      inList(wiqlField('System.IterationPath', 'Source'), iterationFilter.iterationPaths || []),
+      iterationFilter.dateFieldRange ? dateRangeOverlaps(iterationFilter.dateFieldRange, 'Source') : ''
+    );
+    
+    if (!windowCondition && iterationFilter.requireIteration !== false) {
       // Default: require root to have ANY iteration path (not empty)
-      iterationFilterClause = `AND [Source].[System.IterationPath] <> ''`;
+      rootFilter.requireIteration = true;
     }
   }
   
@@ -225,52 +463,184 @@ function buildWorkItemTreeQuery(
   // - Uses recursive mode to get all descendants (regardless of their iteration)
   // - Filters out closed/removed items
   
-  return `
-    SELECT [System.Id], 
-           [System.Title], 
-           [System.State], 
-           [System.WorkItemType],
-           [System.IterationPath],
-           [System.AreaPath],
-           [System.Tags],
-           [System.TeamProject]
-    FROM WorkItemLinks
-    WHERE [Source].[System.TeamProject] = '${project}'
-      AND [Source].[System.WorkItemType] = '${rootWorkItemType}'
-      ${stateFilter}
-      ${iterationFilterClause}
-      AND [System.Links.LinkType] = 'System.LinkTypes.Hierarchy-Forward'
-      AND [Target].[System.TeamProject] = '${project}'
-    MODE (Recursive, ReturnMatchingChildren)
-  `.trim();
-}
-
-/**
- * Helper to get child work item type
- */
-function getChildWorkItemType(parentType: WorkItemType): WorkItemType | null {
-  const hierarchy: { [key: string]: WorkItemType | null } = {
-    'Epic': 'Feature',
-    'Feature': 'User Story',
-    'User Story': 'Task',
-    'Task': null,
-    'Bug': null
-  };
-  return hierarchy[parentType] || null;
+  return buildTreeQuery(project, rootFilter, windowCondition);
 }
 
 /**
- * Helper to get completed states for a work item type
+ * Roots without any dates (see hasNoDates) and everything below them. Its
+ * length doesn't depend on the project's iterations, unlike a list of every
+ * dated path would.
  */
-function getCompletedStates(workItemType: WorkItemType): string[] {
-  const stateMap: { [key: string]: string[] } = {
-    'Epic': ['Done', 'Closed'],
-    'Feature': ['Done', 'Closed'],
-    'User Story': ['Done', 'Closed', 'Resolved'],
-    'Task': ['Done', 'Closed'],
-    'Bug': ['Done', 'Closed', 'Resolved']
-  };
-  return stateMap[workItemType] || ['Done', 'Closed'];
+function buildUndatedTreeQuery(
+  project: string,
+  rootWorkItemTypes: string | string[],
+  excludeStates: string[]
+): string {
+  return buildTreeQuery(
+    project,
+    {
+      project,
+      workItemTypes: Array.isArray(rootWorkItemTypes) ? rootWorkItemTypes : [rootWorkItemTypes],
+      excludeStates
+    },
+    hasNoDates(project, 'Source')
+  );
+}
+
+// Roots matching the filter and condition, with all their descendants
+function buildTreeQuery(project: string, rootFilter: WorkItemFilter, rootCondition: WiqlCondition): string {
+  return buildLinksQuery({
+    fields: [
+      'System.Id',
+      'System.Title',
+      'System.State',
+      'System.WorkItemType',
+      'System.IterationPath',
+      'System.AreaPath',
+      'System.Tags',
+      'System.TeamProject'
+    ],
+    source: and(buildFilterCondition(rootFilter, 'Source'), rootCondition),
+    linkType: HIERARCHY_FORWARD,
+    target: equals(wiqlField('System.TeamProject', 'Target'), project),
+    mode: 'Recursive, ReturnMatchingChildren'
+  });
+}
+
+/**
+ * Trees of the undated roots of the given types, for a load with a window
+ */
+async function queryUndatedTrees(
+  source: WorkItemTrackingSource,
+  rootWorkItemTypes: string | string[],
+  excludeStates: string[]
+) {
+  const result = await source.queryWiql(buildUndatedTreeQuery(source.project, rootWorkItemTypes, excludeStates));
+  console.log(`Undated roots query returned ${result.workItemRelations?.length || 0} relations`);
+  return result.workItemRelations || [];
+}
+
+/**
+ * Read the project's backlog levels from its process configuration
+ */
+async function getBacklogLevels(source: WorkItemTrackingSource): Promise<BacklogLevel[]> {
+  try {
+    const backlogConfiguration = await source.getBacklogConfiguration();
+    const levels = buildBacklogLevels(backlogConfiguration);
+    console.log('Backlog levels:', levels.map(level => level.name).join(' → '));
+    return levels;
+  } catch (error) {
+    console.error('Error fetching backlog configuration, using default hierarchy:', error);
+    return DEFAULT_BACKLOG_LEVELS;
+  }
+}
+
+// State name -> category per work item type, fetched once per project and type
+const stateCategoryCache = new Map<string, Promise<Map<string, string>>>();
+
+function getStateCategories(
+  source: WorkItemTrackingSource,
+  workItemType: string
+): Promise<Map<string, string>> {
+  const cacheKey = `${source.project}/${workItemType}`;
+  let cached = stateCategoryCache.get(cacheKey);
+
+  if (!cached) {
+    cached = source
+      .getWorkItemTypeStates(workItemType)
+      .then(states => new Map(states.map(state => [state.name, state.category] as [string, string])))
+      .catch(error => {
+        // Drop the failed lookup so the next load retries it
+        stateCategoryCache.delete(cacheKey);
+        console.error(`Error fetching states for ${workItemType}:`, error);
+        return new Map<string, string>();
+      });
+    stateCategoryCache.set(cacheKey, cached);
+  }
+
+  return cached;
+}
+
+// Team areas, fetched once per project
+const teamAreaCache = new Map<string, Promise<TeamArea[]>>();
+
+function getTeamAreas(source: WorkItemTrackingSource): Promise<TeamArea[]> {
+  const cacheKey = `${source.organization}/${source.project}`;
+  let cached = teamAreaCache.get(cacheKey);
+
+  if (!cached) {
+    cached = source.getTeamAreas().catch(error => {
+      // Drop the failed lookup so the next load retries it
+      teamAreaCache.delete(cacheKey);
+      if (isRequestError(error) && error.kind === 'cancelled') throw error;
+      console.error('Error fetching team areas, grouping every item under No team:', error);
+      return [];
+    });
+    teamAreaCache.set(cacheKey, cached);
+  }
+
+  return cached;
+}
+
+/**
+ * Attach the state category (Proposed, InProgress, Resolved, Completed, Removed) to every node
+ */
+async function attachStateCategories(
+  source: WorkItemTrackingSource,
+  nodeMap: Map<number, WorkItemNode>
+): Promise<void> {
+  const workItemTypes = new Set<string>();
+  nodeMap.forEach(node => workItemTypes.add(node.workItemType));
+
+  const categoriesByType = new Map<string, Map<string, string>>();
+  await Promise.all(
+    Array.from(workItemTypes).map(async workItemType => {
+      categoriesByType.set(workItemType, await getStateCategories(source, workItemType));
+    })
+  );
+
+  nodeMap.forEach(node => {
+    node.stateCategory = categoriesByType.get(node.workItemType)?.get(node.state);
+  });
+}
+
+/**
+ * A node is done when its state is in the Completed category, or when the
+ * project settings list its state as an additional completed state
+ */
+function isNodeCompleted(node: WorkItemNode, stateMap: { [key: string]: string[] }): boolean {
+  const extraCompletedStates = stateMap[node.workItemType] || [];
+  return isCompletedState(node.state, node.stateCategory) || extraCompletedStates.includes(node.state);
+}
+
+// Used for a type whose state categories could not be read
+const FALLBACK_CLOSED_STATES = ['Closed', 'Removed'];
+
+/**
+ * Whether a top-level item is left off the timeline: its state is in the
+ * Completed or Removed category
+ */
+function isClosedState(state: string, stateCategory?: string): boolean {
+  if (!stateCategory) return FALLBACK_CLOSED_STATES.includes(state);
+  return isCompletedState(state, stateCategory) || isRemovedState(stateCategory);
+}
+
+/**
+ * State names of the given types that isClosedState leaves out, so the tree
+ * query and the incremental refresh agree on which roots stay
+ */
+async function getClosedStates(source: WorkItemTrackingSource, workItemTypes: string[]): Promise<string[]> {
+  const closedStates = new Set<string>();
+  await Promise.all(
+    workItemTypes.map(async workItemType => {
+      const categories = await getStateCategories(source, workItemType);
+      if (categories.size === 0) FALLBACK_CLOSED_STATES.forEach(state => closedStates.add(state));
+      categories.forEach((category, state) => {
+        if (isClosedState(state, category)) closedStates.add(state);
+      });
+    })
+  );
+  return Array.from(closedStates);
 }
 
 /**
@@ -280,10 +650,15 @@ interface WorkItemNode {
   id: number;
   title: string;
   state: string;
-  workItemType: WorkItemType;
+  stateCategory?: string;
+  workItemType: string;
   iterationPath: string;
   areaPath: string;
+  startDate?: string;
+  targetDate?: string;
   tags?: string[];
+  // System.Parent, set even when the parent is outside the result set
+  parentId?: number;
   children: WorkItemNode[];
   childIds: number[];
 }
@@ -307,7 +682,10 @@ function buildTreeFromLinks(
       workItemType: wi.fields['System.WorkItemType'],
       iterationPath: wi.fields['System.IterationPath'],
       areaPath: wi.fields['System.AreaPath'],
+      startDate: wi.fields['Microsoft.VSTS.Scheduling.StartDate'],
+      targetDate: wi.fields['Microsoft.VSTS.Scheduling.TargetDate'],
       tags: wi.fields['System.Tags'],
+      parentId: wi.fields['System.Parent'],
       children: [],
       childIds: []
     });
@@ -322,7 +700,8 @@ function buildTreeFromLinks(
       const parentNode = nodeMap.get(parentId);
       const childNode = nodeMap.get(childId);
       
-      if (parentNode && childNode && parentId !== childId) {
+      // Merged query results can repeat a link
+      if (parentNode && childNode && parentId !== childId && !parentNode.childIds.includes(childId)) {
         parentNode.childIds.push(childId);
         parentNode.children.push(childNode);
       }
@@ -340,8 +719,7 @@ function buildTreeFromLinks(
 function findRootNodes(
   nodeMap: Map<number, WorkItemNode>,
   rootWorkItemType: RootWorkItemType,
-  iterationMap: Map<string, { startDate: string; finishDate: string }>,
-  projectName: string,
+  context: ConversionContext,
   iterationFilter?: IterationFilterOptions
 ): WorkItemNode[] {
   
@@ -356,26 +734,22 @@ function findRootNodes(
   nodeMap.forEach(node => {
     if (!allChildIds.has(node.id) && node.workItemType === rootWorkItemType) {
       
-      // Apply date-based iteration filter if specified
-      if (iterationFilter?.startDate || iterationFilter?.endDate) {
-        const iterationDates = findIterationDates(node.iterationPath, projectName, iterationMap);
-        
-        if (!iterationDates) {
-          console.log(`Skipping root node ${node.id} - no iteration dates found`);
-          return;
-        }
-        
-        const iterStart = new Date(iterationDates.startDate);
-        const iterEnd = new Date(iterationDates.finishDate);
-        
-        // Check if iteration overlaps with filter date range
-        if (iterationFilter.startDate && iterEnd < iterationFilter.startDate) {
-          console.log(`Skipping root node ${node.id} - iteration ends before filter start`);
+      // Apply date-based filter if specified. Undated roots are kept so
+      // they can be reported as unscheduled.
+      const span =
+        iterationFilter?.startDate || iterationFilter?.endDate
+          ? resolveDateSpan(node, context)
+          : null;
+      
+      if (span) {
+        // Check if the bar span overlaps with filter date range
+        if (iterationFilter?.startDate && new Date(span.end) < iterationFilter.startDate) {
+          console.log(`Skipping root node ${node.id} - dates end before filter start`);
           return;
         }
         
-        if (iterationFilter.endDate && iterStart > iterationFilter.endDate) {
-          console.log(`Skipping root node ${node.id} - iteration starts after filter end`);
+        if (iterationFilter?.endDate && new Date(span.start) > iterationFilter.endDate) {
+          console.log(`Skipping root node ${node.id} - dates start after filter end`);
           return;
         }
       }
@@ -388,26 +762,59 @@ function findRootNodes(
   return rootNodes;
 }
 
+/**
+ * Items one backlog level below the root type that have no parent at all,
+ * e.g. Features without an Epic in Epic view
+ */
+function findOrphanNodes(
+  nodeMap: Map<number, WorkItemNode>,
+  rootWorkItemType: RootWorkItemType,
+  backlogLevels: BacklogLevel[]
+): WorkItemNode[] {
+  const childLevel = getChildBacklogLevel(backlogLevels, rootWorkItemType);
+  if (!childLevel) return [];
+
+  const allChildIds = new Set<number>();
+  nodeMap.forEach(node => {
+    node.childIds.forEach(childId => allChildIds.add(childId));
+  });
+
+  const orphanNodes: WorkItemNode[] = [];
+  nodeMap.forEach(node => {
+    if (
+      !allChildIds.has(node.id) &&
+      !node.parentId &&
+      childLevel.workItemTypes.includes(node.workItemType)
+    ) {
+      orphanNodes.push(node);
+    }
+  });
+
+  console.log(`Found ${orphanNodes.length} unparented ${childLevel.name}`);
+  return orphanNodes;
+}
+
 /**
  * Calculate progress recursively
  */
-function calculateNodeProgress(node: WorkItemNode): { total: number; completed: number } {
-  const completedStates = getCompletedStates(node.workItemType);
-  
+function calculateNodeProgress(
+  node: WorkItemNode,
+  stateMap: { [key: string]: string[] }
+): { total: number; completed: number } {
   if (node.children.length === 0) {
     // Leaf node
-    const isCompleted = completedStates.includes(node.state);
+    const isCompleted = isNodeCompleted(node, stateMap);
     return { total: 1, completed: isCompleted ? 1 : 0 };
   }
   
-  // Aggregate from children
+  // Aggregate from children, leaving removed items out
   let total = 0;
   let completed = 0;
   
   node.children.forEach(child => {
-    const childStates = getCompletedStates(child.workItemType);
+    if (isRemovedState(child.stateCategory)) return;
     total++;
-    if (childStates.includes(child.state)) {
+    if (isNodeCompleted(child, stateMap)) {
       completed++;
     }
   });
@@ -416,45 +823,182 @@ function calculateNodeProgress(node: WorkItemNode): { total: number; completed:
 }
 
 /**
- * Convert tree node to output format
+ * Everything convertNodeToWorkItem needs besides the node itself
+ */
+interface ConversionContext {
+  calendar: IterationCalendar;
+  projectName: string;
+  completedStates: { [key: string]: string[] };
+  backlogLevels: BacklogLevel[];
+  dateSource: DateSourceStrategy;
+}
+
+/**
+ * Start and end of a bar, and which source they came from
+ */
+interface DateSpan {
+  start: string;
+  end: string;
+  source: DateSourceStrategy;
+}
+
+// Fallback order after the configured strategy
+const DATE_SOURCE_ORDER: DateSourceStrategy[] = ['fields', 'iteration', 'childIterations'];
+
+/**
+ * Earliest start and latest end across the iterations of all descendants
+ */
+function getChildIterationSpan(
+  node: WorkItemNode,
+  context: ConversionContext
+): { start: string; end: string } | null {
+  let start: string | null = null;
+  let end: string | null = null;
+
+  const visit = (child: WorkItemNode) => {
+    const dates = context.calendar.getDates(child.iterationPath);
+    if (dates) {
+      if (!start || new Date(dates.startDate) < new Date(start)) start = dates.startDate;
+      if (!end || new Date(dates.finishDate) > new Date(end)) end = dates.finishDate;
+    }
+    child.children.forEach(visit);
+  };
+  node.children.forEach(visit);
+
+  return start && end ? { start, end } : null;
+}
+
+function getDateSpanFrom(
+  dateSource: DateSourceStrategy,
+  node: WorkItemNode,
+  context: ConversionContext
+): { start: string; end: string } | null {
+  switch (dateSource) {
+    case 'fields':
+      return node.startDate && node.targetDate
+        ? { start: node.startDate, end: node.targetDate }
+        : null;
+    case 'iteration': {
+      const dates = context.calendar.getDates(node.iterationPath);
+      return dates ? { start: dates.startDate, end: dates.finishDate } : null;
+    }
+    case 'childIterations':
+      return getChildIterationSpan(node, context);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Resolve a node's bar span, trying the configured strategy first
+ */
+function resolveDateSpan(node: WorkItemNode, context: ConversionContext): DateSpan | null {
+  const order = [
+    context.dateSource,
+    ...DATE_SOURCE_ORDER.filter(source => source !== context.dateSource)
+  ];
+
+  for (const source of order) {
+    const span = getDateSpanFrom(source, node, context);
+    if (span) {
+      return { ...span, source };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Explain why none of the date sources produced a span, in fallback order
+ */
+function describeMissingDates(node: WorkItemNode, context: ConversionContext): string {
+  const order = [
+    context.dateSource,
+    ...DATE_SOURCE_ORDER.filter(source => source !== context.dateSource)
+  ];
+
+  const reasons = order.map(source => {
+    switch (source) {
+      case 'fields':
+        if (!node.startDate && !node.targetDate) return 'No Start Date or Target Date';
+        return node.startDate ? 'No Target Date' : 'No Start Date';
+      case 'iteration':
+        if (!node.iterationPath || node.iterationPath === context.projectName) {
+          return 'No iteration assigned';
+        }
+        return `Iteration "${node.iterationPath}" has no start and end dates`;
+      case 'childIterations':
+        return node.children.length > 0
+          ? 'No child is in a dated iteration'
+          : 'No children';
+      default:
+        return '';
+    }
+  });
+
+  return reasons.join('; ');
+}
+
+/**
+ * Convert tree node to output format. Nodes without dates are dropped from
+ * the tree and, when a collector is given, recorded there instead.
  */
 function convertNodeToWorkItem(
   node: WorkItemNode,
-  iterationMap: Map<string, { startDate: string; finishDate: string }>,
-  projectName: string
+  context: ConversionContext,
+  unscheduled?: UnscheduledWorkItem[],
+  parentId?: number
 ): any | null {
+  const { completedStates, backlogLevels } = context;
   
-  const iterationDates = findIterationDates(node.iterationPath, projectName, iterationMap);
+  const span = resolveDateSpan(node, context);
   
-  if (!iterationDates) {
-    console.log(`Skipping work item ${node.id} - no iteration dates found for ${node.iterationPath}`);
+  if (!span) {
+    console.log(`Skipping work item ${node.id} - no dates found for ${node.iterationPath}`);
+    unscheduled?.push({
+      id: node.id.toString(),
+      title: node.title,
+      workItemType: node.workItemType,
+      state: node.state,
+      iterationPath: node.iterationPath,
+      parentId: parentId?.toString(),
+      childCount: node.children.length,
+      reason: describeMissingDates(node, context)
+    });
     return null;
   }
   
-  const progress = calculateNodeProgress(node);
-  const childType = getChildWorkItemType(node.workItemType);
+  const progress = calculateNodeProgress(node, completedStates);
+  const levelIndex = getBacklogLevelIndex(backlogLevels, node.workItemType);
+  const childLevel = getChildBacklogLevel(backlogLevels, node.workItemType);
   
   const workItem: any = {
     id: node.id.toString(),
     title: node.title,
     state: node.state,
+    stateCategory: node.stateCategory,
     workItemType: node.workItemType,
     tags: node.tags,
-    iterationStart: iterationDates.startDate,
-    iterationEnd: iterationDates.finishDate,
+    iterationStart: span.start,
+    iterationEnd: span.end,
+    dateSource: span.source,
     children: []
   };
+
+  if (levelIndex !== -1) {
+    workItem.backlogLevel = backlogLevels[levelIndex].name;
+  }
   
-  // Add type-specific counts
-  if (childType) {
-    const childTypeName = childType.toLowerCase().replace(' ', '');
-    workItem[`${childTypeName}Count`] = progress.total;
-    workItem[`completed${childType.replace(' ', '')}Count`] = progress.completed;
+  // Add child counts keyed by level rather than by work item type
+  if (childLevel) {
+    workItem.childLevel = childLevel.name;
+    workItem.childCount = progress.total;
+    workItem.completedChildCount = progress.completed;
   }
   
   // Recursively convert children
   node.children.forEach(child => {
-    const childWorkItem = convertNodeToWorkItem(child, iterationMap, projectName);
+    const childWorkItem = convertNodeToWorkItem(child, context, unscheduled, node.id);
     if (childWorkItem) {
       workItem.children.push(childWorkItem);
     }
@@ -463,101 +1007,76 @@ function convertNodeToWorkItem(
   return workItem;
 }
 
-// Helper function to recursively extract iterations from classification nodes
-function extractIterationsFromNode(node: any, projectName: string, parentPath: string = ''): Map<string, { startDate: string; finishDate: string }> {
-  const iterationMap = new Map<string, { startDate: string; finishDate: string }>();
-  
-  if (!node) return iterationMap;
-  
-   let currentPath: string;
-   if (!parentPath) {
-     currentPath = node.name;
-   } else {
-     currentPath = `${parentPath}\\${node.name}`;
-   }
-  
-  if (node.attributes && node.attributes.startDate && node.attributes.finishDate) {
-    console.log('Found iteration:', currentPath);
-    console.log(node);
-    iterationMap.set(currentPath, {
-      startDate: node.attributes.startDate,
-      finishDate: node.attributes.finishDate
-    });
-    
-    // const pathWithoutProject = currentPath.replace(`${projectName}\\`, '');
-    // if (pathWithoutProject !== currentPath) {
-    //   iterationMap.set(pathWithoutProject, {
-    //     startDate: node.attributes.startDate,
-    //     finishDate: node.attributes.finishDate
-    //   });
-    // }
-    
-    // iterationMap.set(node.name, {
-    //   startDate: node.attributes.startDate,
-    //   finishDate: node.attributes.finishDate
-    // });
-  }
-  
-  if (node.children && Array.isArray(node.children)) {
-    for (const child of node.children) {
-      const childIterations = extractIterationsFromNode(child, projectName, currentPath);
-      childIterations.forEach((value, key) => {
-        iterationMap.set(key, value);
-      });
-    }
-  }
-  
-  return iterationMap;
+/**
+ * What a built-in WIQL load fetched, kept so a refresh only has to apply
+ * what changed since
+ */
+interface SyncedTree {
+  // Every work item in the tree and its parent within the tree (null for top-level rows)
+  parents: Map<number, number | null>;
+  details: Map<number, any>;
+  backlogLevels: BacklogLevel[];
+  filter?: IterationFilterOptions;
+  lastSync: Date;
 }
 
-function normalizeIterationPath(iterationPath: string, projectName: string): string[] {
-  const variations: string[] = [];
-  variations.push(iterationPath);
-  
-  if (!iterationPath.startsWith(projectName)) {
-    variations.push(`${projectName}\\${iterationPath}`);
-  }
-  
-  if (iterationPath.startsWith(`${projectName}\\`)) {
-    variations.push(iterationPath.substring(projectName.length + 1));
-  }
-  
-  return variations;
+// Keyed by organization/project, root type and requested window
+const syncedTrees = new Map<string, SyncedTree>();
+
+// Changes saved while a fetch runs, or under clock skew, are picked up twice
+// rather than missed
+const SYNC_OVERLAP_MS = 60 * 1000;
+
+function getSyncKey(
+  source: WorkItemTrackingSource,
+  rootLevel: RootWorkItemType,
+  iterationFilter?: IterationFilterOptions
+): string {
+  const window = iterationFilter?.startDate && iterationFilter?.endDate
+    ? `${toIsoDate(iterationFilter.startDate)}..${toIsoDate(iterationFilter.endDate)}`
+    : 'current';
+  return `${source.organization}/${source.project}:${rootLevel}:${window}`;
 }
 
-function findIterationDates(
-  iterationPath: string, 
-  projectName: string, 
-  iterationMap: Map<string, { startDate: string; finishDate: string }>
-): { startDate: string; finishDate: string } | undefined {
-  
-  const variations = normalizeIterationPath(iterationPath, projectName);
-  
-  for (const variation of variations) {
-    const dates = iterationMap.get(variation);
-    if (dates) {
-      return dates;
+function getParentMap(workItemRelations: any[]): Map<number, number | null> {
+  const parents = new Map<number, number | null>();
+  workItemRelations.forEach(relation => {
+    if (relation.source && !parents.has(relation.source.id)) {
+      parents.set(relation.source.id, null);
     }
-  }
-  
-  return undefined;
+    if (relation.target) {
+      const parentId = relation.source && relation.source.id !== relation.target.id
+        ? relation.source.id
+        : null;
+      if (parentId !== null || !parents.has(relation.target.id)) {
+        parents.set(relation.target.id, parentId);
+      }
+    }
+  });
+  return parents;
+}
+
+// Back to the link format buildTreeFromLinks reads
+function getRelationsFromParents(parents: Map<number, number | null>): any[] {
+  return Array.from(parents.entries()).map(([id, parentId]) => ({
+    rel: parentId === null ? null : HIERARCHY_FORWARD,
+    source: parentId === null ? null : { id: parentId },
+    target: { id }
+  }));
 }
 
 /**
- * MAIN FETCH FUNCTION - Uses unified query approach
+ * UNIFIED PIPELINE - Shared by dev (REST + PAT) and extension (SDK) modes
  */
-export async function fetchWorkItemsLocal(
-  orgUrl: string,
-  project: string,
-  pat: string,
-  rootLevel: RootWorkItemType = 'Epic',
-  iterationFilter?: IterationFilterOptions
-): Promise<ValueStream[]> {
-  const auth = btoa(`:${pat}`);
-  const headers = {
-    'Authorization': `Basic ${auth}`,
-    'Content-Type': 'application/json'
-  };
+async function buildValueStreams(
+  source: WorkItemTrackingSource,
+  rootLevel: RootWorkItemType,
+  iterationFilter?: IterationFilterOptions,
+  projectSettings: ProjectSettings = DEFAULT_PROJECT_SETTINGS,
+  onProgress?: FetchProgressCallback
+): Promise<ValueStreamData[]> {
+  const project = source.project;
+  const syncStartedAt = new Date(Date.now() - SYNC_OVERLAP_MS);
 
   console.log(`=== Starting Unified Work Items Fetch (Root: ${rootLevel}) ===`);
   
@@ -567,7 +1086,7 @@ export async function fetchWorkItemsLocal(
   // If no filter provided or useCurrentIterationContext is true, get current iteration context
   if (!iterationFilter || iterationFilter.useCurrentIterationContext) {
     console.log('Using current iteration context (prev, current, next)');
-    const iterationPaths = await getCurrentIterationContext(orgUrl, project, headers);
+    const iterationPaths = await getCurrentIterationContext(source, projectSettings.fiscalYearStartMonth);
     
     if (iterationPaths.length > 0) {
       effectiveIterationFilter = {
@@ -575,12 +1094,50 @@ export async function fetchWorkItemsLocal(
         iterationPaths: iterationPaths,
         requireIteration: true
       };
+
+      if (projectSettings.dateSource === 'fields') {
+        const { previousQuarterStart, twoQuartersAfterEnd } = getQuarterRange(new Date(), projectSettings.fiscalYearStartMonth);
+        effectiveIterationFilter.dateFieldRange = {
+          start: previousQuarterStart,
+          end: twoQuartersAfterEnd
+        };
+      }
     } else {
       console.log('No iterations found, falling back to default filter');
       effectiveIterationFilter = {
         requireIteration: true
       };
     }
+  } else if (
+    iterationFilter.startDate &&
+    iterationFilter.endDate &&
+    !iterationFilter.iterationPaths?.length
+  ) {
+    // Visible window from the timeline: roots in overlapping iterations
+    const { startDate, endDate } = iterationFilter;
+    console.log(`Using iterations between ${toIsoDate(startDate)} and ${toIsoDate(endDate)}`);
+    const iterationPaths = await getIterationsInRange(source, startDate, endDate);
+
+    effectiveIterationFilter = {
+      ...iterationFilter,
+      iterationPaths,
+      requireIteration: true
+    };
+
+    if (projectSettings.dateSource === 'fields') {
+      effectiveIterationFilter.dateFieldRange = { start: startDate, end: endDate };
+    }
+
+    if (iterationPaths.length === 0 && !effectiveIterationFilter.dateFieldRange) {
+      console.log('No iterations in range');
+      return [];
+    }
+  }
+
+  // Roots with no dates at all match no window; fetch them too so they are
+  // listed as unscheduled (saved queries return them as they are)
+  if (effectiveIterationFilter?.iterationPaths?.length || effectiveIterationFilter?.dateFieldRange) {
+    effectiveIterationFilter = { ...effectiveIterationFilter, includeUndated: true };
   }
   
   if (effectiveIterationFilter) {
@@ -588,23 +1145,52 @@ export async function fetchWorkItemsLocal(
   }
 
   // Step 1: Build and execute the unified tree query
-  const query = buildWorkItemTreeQuery(project, rootLevel, effectiveIterationFilter, 3);
+  const closedRootStates = await getClosedStates(source, [rootLevel]);
+  const query = buildWorkItemTreeQuery(project, rootLevel, effectiveIterationFilter, closedRootStates);
   console.log('Executing unified tree query:', query);
   
-  const wiqlUrl = `${orgUrl}/${project}/_apis/wit/wiql?api-version=7.0`;
-  const queryResponse = await fetch(wiqlUrl, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify({ query })
-  });
-
-  const queryResult = await queryResponse.json();
+  const queryResult = await source.queryWiql(query);
   const workItemRelations = queryResult.workItemRelations || [];
   
   console.log(`Query returned ${workItemRelations.length} work item relations`);
+
+  if (effectiveIterationFilter?.includeUndated) {
+    workItemRelations.push(...await queryUndatedTrees(source, rootLevel, closedRootStates));
+  }
+
+  // Items of the next level down only reach the tree through a parent, so
+  // query them as roots too; the ones without a parent become the Unparented group
+  const backlogLevels = await getBacklogLevels(source);
+  const childLevel = getChildBacklogLevel(backlogLevels, rootLevel);
+  if (childLevel) {
+    const closedChildStates = await getClosedStates(source, childLevel.workItemTypes);
+    const orphanQuery = buildWorkItemTreeQuery(
+      project,
+      childLevel.workItemTypes,
+      effectiveIterationFilter,
+      closedChildStates
+    );
+    const orphanResult = await source.queryWiql(orphanQuery);
+    workItemRelations.push(...(orphanResult.workItemRelations || []));
+    console.log(`Child level query returned ${orphanResult.workItemRelations?.length || 0} relations`);
+
+    if (effectiveIterationFilter?.includeUndated) {
+      workItemRelations.push(...await queryUndatedTrees(source, childLevel.workItemTypes, closedChildStates));
+    }
+  }
   
+  const syncKey = getSyncKey(source, rootLevel, iterationFilter);
+
   if (workItemRelations.length === 0) {
     console.log('No work items found matching criteria');
+    // Still remembered, so a refresh can pick up items added later
+    syncedTrees.set(syncKey, {
+      parents: new Map(),
+      details: new Map(),
+      backlogLevels,
+      filter: effectiveIterationFilter,
+      lastSync: syncStartedAt
+    });
     return [];
   }
 
@@ -615,17 +1201,125 @@ export async function fetchWorkItemsLocal(
     if (relation.target) workItemIds.add(relation.target.id);
   });
   
-  const ids = Array.from(workItemIds);
+  // Step 3: Fetch all work item details in chunks
+  const workItemDetailsMap = await fetchWorkItemDetails(
+    source,
+    Array.from(workItemIds),
+    getWorkItemFields(projectSettings),
+    onProgress
+  );
+
+  syncedTrees.set(syncKey, {
+    parents: getParentMap(workItemRelations),
+    details: workItemDetailsMap,
+    backlogLevels,
+    filter: effectiveIterationFilter,
+    lastSync: syncStartedAt
+  });
+
+  return assembleValueStreams(
+    source,
+    workItemRelations,
+    workItemDetailsMap,
+    rootLevel,
+    projectSettings,
+    backlogLevels,
+    effectiveIterationFilter
+  );
+}
+
+/**
+ * Run async tasks over items with at most `limit` in flight, settling every task
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = { status: 'fulfilled', value: await task(items[index]) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Fetch field values for the given IDs, keyed by ID and limited to the current project.
+ * IDs are requested in chunks of 200 with limited parallelism. Failed chunks are
+ * skipped and reported, the fetch only fails when every chunk does.
+ */
+async function fetchWorkItemDetails(
+  source: WorkItemTrackingSource,
+  ids: number[],
+  fields: string[],
+  onProgress?: FetchProgressCallback
+): Promise<Map<number, any>> {
   console.log(`Fetching details for ${ids.length} work items`);
 
-  // Step 3: Fetch all work item details in bulk
-  const workItemsUrl = `${orgUrl}/${project}/_apis/wit/workitems?ids=${ids.join(',')}&fields=System.Id,System.Title,System.IterationPath,System.AreaPath,System.Tags,System.State,System.WorkItemType,System.TeamProject&api-version=7.0`;
-  const workItemsResponse = await fetch(workItemsUrl, { headers });
-  const workItemsData = await workItemsResponse.json();
+  const chunks: number[][] = [];
+  for (let i = 0; i < ids.length; i += WORK_ITEM_BATCH_SIZE) {
+    chunks.push(ids.slice(i, i + WORK_ITEM_BATCH_SIZE));
+  }
+
+  const progress: FetchProgress = {
+    phase: 'Fetching work item details',
+    loaded: 0,
+    total: ids.length,
+    failed: 0
+  };
+  onProgress?.({ ...progress });
+
+  const results = await mapWithConcurrency(chunks, MAX_PARALLEL_REQUESTS, async chunk => {
+    try {
+      return await source.getWorkItems(chunk, fields);
+    } catch (error) {
+      progress.failed += chunk.length;
+      throw error;
+    } finally {
+      progress.loaded += chunk.length;
+      onProgress?.({ ...progress });
+    }
+  });
+
+  const workItems: any[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      workItems.push(...result.value);
+    } else {
+      console.error(`Failed to fetch work item chunk ${index + 1}/${chunks.length}:`, result.reason);
+    }
+  });
+
+  if (chunks.length > 0 && results.every(result => result.status === 'rejected')) {
+    // Every chunk failing usually shares one cause (auth, throttling, ...), so report it
+    const firstReason = (results[0] as PromiseRejectedResult).reason;
+    if (isRequestError(firstReason)) throw firstReason;
+    throw new Error(`Failed to fetch details for all ${ids.length} work items`);
+  }
+
+  const cancelled = results.find(
+    result => result.status === 'rejected' && isRequestError(result.reason) && result.reason.kind === 'cancelled'
+  );
+  if (cancelled) throw (cancelled as PromiseRejectedResult).reason;
+
+  if (progress.failed > 0) {
+    console.warn(`Skipped ${progress.failed} of ${ids.length} work items after failed requests`);
+  }
   
-  // Filter to project items only
-  const projectWorkItems = workItemsData.value.filter((wi: any) => 
-    wi.fields['System.TeamProject'] === project
+  // Filter to project items only (omitted or inaccessible items come back as null)
+  const projectWorkItems = workItems.filter((wi: any) => 
+    wi && wi.fields['System.TeamProject'] === source.project
   );
 
   // Create a map for quick lookup
@@ -634,82 +1328,569 @@ export async function fetchWorkItemsLocal(
     workItemDetailsMap.set(wi.id, wi);
   });
 
-  // Step 4: Fetch iteration dates
-  console.log('Fetching iteration dates...');
-  const classificationNodesUrl = `${orgUrl}/${project}/_apis/wit/classificationnodes/iterations?$depth=10&api-version=7.0`;
-  const classificationResponse = await fetch(classificationNodesUrl, { headers });
-  const classificationData = await classificationResponse.json();
-  
-  const iterationMap = extractIterationsFromNode(classificationData, project);
-  console.log(`Loaded ${iterationMap.size} iterations`);
+  return workItemDetailsMap;
+}
+
+/**
+ * Steps 4-7 of the pipeline: resolve iteration dates, build the tree,
+ * convert root nodes and group them into value streams
+ */
+async function assembleValueStreams(
+  source: WorkItemTrackingSource,
+  workItemRelations: any[],
+  workItemDetailsMap: Map<number, any>,
+  rootLevel: RootWorkItemType,
+  projectSettings: ProjectSettings,
+  backlogLevels: BacklogLevel[],
+  effectiveIterationFilter?: IterationFilterOptions
+): Promise<ValueStreamData[]> {
+  const project = source.project;
+
+  // Step 4: Iteration dates (usually already loaded while building the query)
+  const calendar = await getIterationCalendar(source);
+
+  const conversionContext: ConversionContext = {
+    calendar,
+    projectName: project,
+    completedStates: projectSettings.completedStates,
+    backlogLevels,
+    dateSource: projectSettings.dateSource
+  };
 
   // Step 5: Build tree structure from flat relations
   const nodeMap = buildTreeFromLinks(workItemRelations, workItemDetailsMap);
-  const rootNodes = findRootNodes(nodeMap, rootLevel, iterationMap, project, effectiveIterationFilter);
+  await attachStateCategories(source, nodeMap);
+  const rootNodes = findRootNodes(nodeMap, rootLevel, conversionContext, effectiveIterationFilter);
+  const orphanNodes = findOrphanNodes(nodeMap, rootLevel, backlogLevels);
 
-  // Step 6: Convert to output format and group by area path
-  const valueStreamMap = new Map<string, any[]>();
+  // Step 6: Convert to output format and group by the configured strategy
+  const groupingOptions: GroupingOptions = {
+    grouping: projectSettings.valueStreamGrouping,
+    project,
+    areaPathDepth: projectSettings.valueStreamAreaDepth,
+    tagPrefix: projectSettings.valueStreamTagPrefix,
+    field: projectSettings.valueStreamField.trim(),
+    teamAreas: projectSettings.valueStreamGrouping === 'team' ? await getTeamAreas(source) : undefined
+  };
+  console.log(`Grouping value streams by ${groupingOptions.grouping}`);
+
+  const valueStreamMap = new Map<
+    string,
+    { group: LaneGroup; items: any[]; unparented: any[]; unscheduled: UnscheduledWorkItem[] }
+  >();
+
+  const getLane = (node: WorkItemNode) => {
+    const group = getLaneGroup(workItemDetailsMap.get(node.id)?.fields || {}, groupingOptions);
+
+    if (!valueStreamMap.has(group.key)) {
+      valueStreamMap.set(group.key, { group, items: [], unparented: [], unscheduled: [] });
+    }
+    return valueStreamMap.get(group.key)!;
+  };
 
   rootNodes.forEach(rootNode => {
-    const workItem = convertNodeToWorkItem(rootNode, iterationMap, project);
-    
+    const lane = getLane(rootNode);
+    const workItem = convertNodeToWorkItem(rootNode, conversionContext, lane.unscheduled);
     if (workItem) {
-      const areaPath = rootNode.areaPath;
-      
-      if (!valueStreamMap.has(areaPath)) {
-        valueStreamMap.set(areaPath, []);
-      }
-      valueStreamMap.get(areaPath)!.push(workItem);
+      lane.items.push(workItem);
+    }
+  });
+
+  orphanNodes.forEach(orphanNode => {
+    const lane = getLane(orphanNode);
+    const workItem = convertNodeToWorkItem(orphanNode, conversionContext, lane.unscheduled);
+    if (workItem) {
+      lane.unparented.push(workItem);
     }
   });
 
   // Step 7: Format final output
-  const result = Array.from(valueStreamMap.entries())
-    .filter(([_, items]) => items.length > 0)
-    .map(([name, items]) => ({
-      id: name.replace(/[^a-zA-Z0-9]/g, '-'),
-      name: name.split('\\').pop() || name,
-      workItems: items
-    }));
+  const result = disambiguateLaneNames(
+    Array.from(valueStreamMap.values())
+      .filter(lane =>
+        lane.items.length > 0 || lane.unparented.length > 0 || lane.unscheduled.length > 0
+      )
+      .map(({ group, ...lane }) => ({
+        id: group.id,
+        name: group.name,
+        path: group.path,
+        workItems: lane.items,
+        unparented: lane.unparented,
+        unscheduled: lane.unscheduled
+      }))
+  );
 
   console.log(`=== Completed: ${result.length} value streams with ${rootNodes.length} root items ===`);
   return result;
 }
 
 /**
- * Main entry point
+ * Run a saved Azure Boards query (tree, one-hop or flat) and rebuild the
+ * hierarchy from its results
+ */
+async function buildValueStreamsFromQuery(
+  source: WorkItemTrackingSource,
+  queryId: string,
+  rootLevel: RootWorkItemType,
+  projectSettings: ProjectSettings = DEFAULT_PROJECT_SETTINGS,
+  onProgress?: FetchProgressCallback,
+  iterationFilter?: IterationFilterOptions
+): Promise<ValueStreamData[]> {
+  console.log(`=== Starting Saved Query Fetch (Query: ${queryId}, Root: ${rootLevel}) ===`);
+
+  const queryResult = await source.runSavedQuery(queryId);
+  const workItemIds = new Set<number>();
+  let workItemRelations: any[] = [];
+
+  if (queryResult.workItemRelations) {
+    // Tree and one-hop queries: keep top-level rows and parent/child links only
+    workItemRelations = queryResult.workItemRelations.filter(
+      (relation: any) => !relation.rel || relation.rel === HIERARCHY_FORWARD
+    );
+    workItemRelations.forEach((relation: any) => {
+      if (relation.source) workItemIds.add(relation.source.id);
+      if (relation.target) workItemIds.add(relation.target.id);
+    });
+  } else {
+    (queryResult.workItems || []).forEach((ref: any) => workItemIds.add(ref.id));
+  }
+
+  console.log(`Saved query returned ${workItemIds.size} work items`);
+
+  if (workItemIds.size === 0) {
+    console.log('No work items found matching criteria');
+    return [];
+  }
+
+  const workItemDetailsMap = await fetchWorkItemDetails(
+    source,
+    Array.from(workItemIds),
+    getWorkItemFields(projectSettings),
+    onProgress
+  );
+
+  if (!queryResult.workItemRelations) {
+    // Flat queries carry no links, derive them from System.Parent within the result set
+    workItemDetailsMap.forEach((wi, id) => {
+      const parentId = wi.fields['System.Parent'];
+      if (parentId && workItemDetailsMap.has(parentId)) {
+        workItemRelations.push({
+          rel: HIERARCHY_FORWARD,
+          source: { id: parentId },
+          target: { id }
+        });
+      }
+    });
+  }
+
+  return assembleValueStreams(
+    source,
+    workItemRelations,
+    workItemDetailsMap,
+    rootLevel,
+    projectSettings,
+    await getBacklogLevels(source),
+    // The query defines the scope; only the date window applies to its roots
+    { startDate: iterationFilter?.startDate, endDate: iterationFilter?.endDate }
+  );
+}
+
+/**
+ * Whether a work item outside the tree now belongs in it as a top-level row,
+ * mirroring the window conditions of the tree query
+ */
+function matchesWindow(workItem: any, filter?: IterationFilterOptions): boolean {
+  const iterationPath: string | undefined = workItem.fields['System.IterationPath'];
+  if (!filter) return !!iterationPath;
+
+  const iterationPaths = filter.iterationPaths || [];
+  const range = filter.dateFieldRange;
+  if (iterationPaths.length === 0 && !range) {
+    return filter.requireIteration === false || !!iterationPath;
+  }
+
+  const inIterations = !!iterationPath && iterationPaths.some(
+    path => path.toLowerCase() === iterationPath.toLowerCase()
+  );
+  const startDate = workItem.fields['Microsoft.VSTS.Scheduling.StartDate'];
+  const targetDate = workItem.fields['Microsoft.VSTS.Scheduling.TargetDate'];
+  const inDates = !!range && !!startDate && !!targetDate &&
+    new Date(startDate) <= range.end && new Date(targetDate) >= range.start;
+  // The project's root iteration has no \ in its path
+  const undated = !!filter.includeUndated && !startDate && !targetDate &&
+    !!iterationPath && !iterationPath.includes('\\');
+
+  return inIterations || inDates || undated;
+}
+
+/**
+ * Bring a tree loaded by buildValueStreams up to date: query only the work
+ * items changed since the last sync ([System.ChangedDate] > lastSync), patch
+ * them in (new children, re-parenting, removals) and assemble the lanes again.
+ * Falls back to a full load when there is nothing to patch.
+ */
+async function refreshValueStreams(
+  source: WorkItemTrackingSource,
+  rootLevel: RootWorkItemType,
+  iterationFilter?: IterationFilterOptions,
+  projectSettings: ProjectSettings = DEFAULT_PROJECT_SETTINGS,
+  onProgress?: FetchProgressCallback
+): Promise<ValueStreamData[]> {
+  const tree = syncedTrees.get(getSyncKey(source, rootLevel, iterationFilter));
+  if (!tree) {
+    console.log('Nothing loaded yet to refresh, fetching everything');
+    return buildValueStreams(source, rootLevel, iterationFilter, projectSettings, onProgress);
+  }
+
+  const project = source.project;
+  const syncStartedAt = new Date(Date.now() - SYNC_OVERLAP_MS);
+  const { backlogLevels } = tree;
+  console.log(`=== Refreshing ${rootLevel} tree (changes since ${tree.lastSync.toISOString()}) ===`);
+
+  // Step 1: What changed, limited to the root level and the levels below it
+  const rootIndex = getBacklogLevelIndex(backlogLevels, rootLevel);
+  const levelTypes = rootIndex >= 0
+    ? backlogLevels.slice(rootIndex).flatMap(level => level.workItemTypes)
+    : [];
+  const deltaQuery = buildWorkItemsQuery({
+    fields: ['System.Id'],
+    where: and(
+      equals(wiqlField('System.TeamProject'), project),
+      inList(wiqlField('System.WorkItemType'), levelTypes),
+      greaterThan(wiqlField('System.ChangedDate'), tree.lastSync.toISOString())
+    )
+  });
+  const deltaResult = await source.queryWiql(deltaQuery, true);
+  const changedIds: number[] = (deltaResult.workItems || []).map((ref: any) => ref.id);
+  console.log(`${changedIds.length} work items changed since the last sync`);
+
+  // Deleted items never show up in a query; the recycle bin lists them
+  let deletedIds: number[] = [];
+  try {
+    deletedIds = await source.getDeletedWorkItemIds();
+  } catch (error) {
+    if (isRequestError(error) && error.kind === 'cancelled') throw error;
+    console.warn('Could not read the recycle bin, deleted work items stay until the next full load:', error);
+  }
+
+  const changedDetails = changedIds.length > 0
+    ? await fetchWorkItemDetails(source, changedIds, getWorkItemFields(projectSettings), onProgress)
+    : new Map<number, any>();
+
+  // Step 2: Patch the tree
+  const removeSubtree = (id: number) => {
+    if (!tree.parents.has(id)) return;
+    tree.parents.delete(id);
+    tree.details.delete(id);
+    tree.parents.forEach((parentId, childId) => {
+      if (parentId === id) removeSubtree(childId);
+    });
+  };
+
+  deletedIds.forEach(removeSubtree);
+
+  const childLevel = getChildBacklogLevel(backlogLevels, rootLevel);
+  // Same state categories as the full query's excludeStates
+  const changedTypes = new Set<string>(
+    Array.from(changedDetails.values()).map(workItem => workItem.fields['System.WorkItemType'])
+  );
+  const categoriesByType = new Map(
+    await Promise.all(
+      Array.from(changedTypes).map(async type => [type, await getStateCategories(source, type)] as const)
+    )
+  );
+  const isOpen = (workItem: any) => {
+    const state: string = workItem.fields['System.State'];
+    return !isClosedState(state, categoriesByType.get(workItem.fields['System.WorkItemType'])?.get(state));
+  };
+  // Items new to the tree whose existing descendants have to be loaded
+  const addedIds: number[] = [];
+
+  const levelOf = (workItem: any) =>
+    getBacklogLevelIndex(backlogLevels, workItem.fields['System.WorkItemType']);
+  // Parents before children, so a new child finds its new parent already in place
+  const changedItems = Array.from(changedDetails.values()).sort((a, b) => levelOf(a) - levelOf(b));
+
+  // Moved to another project or no longer readable
+  changedIds
+    .filter(id => !changedDetails.has(id))
+    .forEach(removeSubtree);
+
+  changedItems.forEach(workItem => {
+    const id: number = workItem.id;
+    const type: string = workItem.fields['System.WorkItemType'];
+    const parentId: number | undefined = workItem.fields['System.Parent'];
+    const isMember = tree.parents.has(id);
+    const parentInTree = !!parentId && tree.parents.has(parentId);
+
+    let newParent: number | null;
+    if (parentInTree) {
+      // New child, or moved under another item of the tree
+      newParent = parentId!;
+    } else if (
+      type === rootLevel ||
+      (!parentId && !!childLevel && childLevel.workItemTypes.includes(type))
+    ) {
+      // Top-level row: a root, or an unparented item of the level below.
+      // Closed roots drop out like in the full query; ones moved out of the
+      // window are dropped by the date filter when assembling.
+      if (!isOpen(workItem) || (!isMember && !matchesWindow(workItem, tree.filter))) {
+        removeSubtree(id);
+        return;
+      }
+      newParent = null;
+    } else {
+      // Moved under a parent outside the tree
+      removeSubtree(id);
+      return;
+    }
+
+    tree.parents.set(id, newParent);
+    tree.details.set(id, workItem);
+    if (!isMember) addedIds.push(id);
+  });
+
+  // Step 3: Unchanged descendants of items that just joined the tree
+  if (addedIds.length > 0) {
+    const subtreeQuery = buildLinksQuery({
+      fields: ['System.Id'],
+      source: and(
+        equals(wiqlField('System.TeamProject', 'Source'), project),
+        inList(wiqlField('System.Id', 'Source'), addedIds)
+      ),
+      linkType: HIERARCHY_FORWARD,
+      target: equals(wiqlField('System.TeamProject', 'Target'), project),
+      mode: 'Recursive, ReturnMatchingChildren'
+    });
+    const subtreeResult = await source.queryWiql(subtreeQuery);
+    const subtreeRelations = (subtreeResult.workItemRelations || [])
+      .filter((relation: any) => relation.source && relation.target);
+
+    const missingIds = new Set<number>();
+    subtreeRelations.forEach((relation: any) => {
+      tree.parents.set(relation.target.id, relation.source.id);
+      if (!tree.details.has(relation.target.id)) missingIds.add(relation.target.id);
+    });
+
+    if (missingIds.size > 0) {
+      const missingDetails = await fetchWorkItemDetails(
+        source,
+        Array.from(missingIds),
+        getWorkItemFields(projectSettings),
+        onProgress
+      );
+      missingDetails.forEach((workItem, id) => tree.details.set(id, workItem));
+    }
+    console.log(`Added ${addedIds.length} items with ${missingIds.size} descendants`);
+  }
+
+  tree.lastSync = syncStartedAt;
+
+  return assembleValueStreams(
+    source,
+    getRelationsFromParents(tree.parents),
+    tree.details,
+    rootLevel,
+    projectSettings,
+    backlogLevels,
+    tree.filter
+  );
+}
+
+/**
+ * Fetch using a Personal Access Token (local development)
+ */
+export async function fetchWorkItemsLocal(
+  orgUrl: string,
+  project: string,
+  pat: string,
+  rootLevel: RootWorkItemType = 'Epic',
+  iterationFilter?: IterationFilterOptions,
+  queryId?: string,
+  onProgress?: FetchProgressCallback,
+  signal?: AbortSignal,
+  incremental: boolean = false,
+  projectSettings: ProjectSettings = DEFAULT_PROJECT_SETTINGS
+): Promise<ValueStreamData[]> {
+  const source = createRestSource(orgUrl, project, pat, signal);
+  if (queryId) {
+    // A saved query's scope can't be checked item by item, so it always reloads in full
+    return buildValueStreamsFromQuery(
+      source,
+      queryId,
+      rootLevel,
+      projectSettings,
+      onProgress,
+      iterationFilter
+    );
+  }
+  const build = incremental ? refreshValueStreams : buildValueStreams;
+  return build(source, rootLevel, iterationFilter, projectSettings, onProgress);
+}
+
+/**
+ * Fetch through the extension SDK (installed Azure DevOps hub)
+ */
+export async function fetchWorkItemsSdk(
+  rootLevel: RootWorkItemType = 'Epic',
+  iterationFilter?: IterationFilterOptions,
+  queryId?: string,
+  onProgress?: FetchProgressCallback,
+  signal?: AbortSignal,
+  incremental: boolean = false
+): Promise<ValueStreamData[]> {
+  const source = await createSdkSource(signal);
+  const projectSettings = await getProjectSettingsOrDefaults();
+  const effectiveQueryId = queryId || projectSettings.queryGuid.trim();
+  if (effectiveQueryId) {
+    return buildValueStreamsFromQuery(
+      source,
+      effectiveQueryId,
+      rootLevel,
+      projectSettings,
+      onProgress,
+      iterationFilter
+    );
+  }
+  const build = incremental ? refreshValueStreams : buildValueStreams;
+  return build(source, rootLevel, iterationFilter, projectSettings, onProgress);
+}
+
+/**
+ * Main entry point. Uses the PAT path when org/project/pat are supplied,
+ * otherwise the SDK context of the hosting page. A query GUID (passed in or
+ * saved in Timeline Settings) takes precedence over the built-in WIQL.
+ * With incremental set, a window loaded before is patched with the changes
+ * since that load instead of being fetched again.
  */
 export async function fetchWorkItems(
-  localConfig?: { 
-    orgUrl: string; 
-    project: string; 
-    pat: string; 
+  config: { 
+    orgUrl?: string; 
+    project?: string; 
+    pat?: string; 
     rootLevel?: RootWorkItemType;
     iterationFilter?: IterationFilterOptions;
-  }
-): Promise<ValueStream[]> {
-  if (localConfig) {
+    queryId?: string;
+    onProgress?: FetchProgressCallback;
+    signal?: AbortSignal;
+    incremental?: boolean;
+    // Timeline Settings for PAT connections, which can't read the saved ones
+    projectSettings?: Partial<ProjectSettings>;
+  } = {}
+): Promise<ValueStreamData[]> {
+  const rootLevel = config.rootLevel || 'Epic';
+
+  if (config.orgUrl && config.project && config.pat) {
     return fetchWorkItemsLocal(
-      localConfig.orgUrl, 
-      localConfig.project, 
-      localConfig.pat,
-      localConfig.rootLevel || 'Epic',
-      localConfig.iterationFilter
+      config.orgUrl, 
+      config.project, 
+      config.pat,
+      rootLevel,
+      config.iterationFilter,
+      config.queryId,
+      config.onProgress,
+      config.signal,
+      config.incremental,
+      { ...DEFAULT_PROJECT_SETTINGS, ...config.projectSettings }
     );
-  } else {
-    // For SDK mode, implement similar unified query approach
-    throw new Error('SDK mode not yet implemented for unified query');
   }
+
+  return fetchWorkItemsSdk(
+    rootLevel,
+    config.iterationFilter,
+    config.queryId,
+    config.onProgress,
+    config.signal,
+    config.incremental
+  );
+}
+
+/**
+ * Connection for the scheduling helpers: PAT details in dev mode, empty in the hub
+ */
+export interface ConnectionConfig {
+  orgUrl?: string;
+  project?: string;
+  pat?: string;
+}
+
+async function createSource(config: ConnectionConfig): Promise<WorkItemTrackingSource> {
+  if (config.orgUrl && config.project && config.pat) {
+    return createRestSource(config.orgUrl, config.project, config.pat);
+  }
+  return createSdkSource();
+}
+
+/**
+ * "organization/project" for the connection, used to scope cached data
+ */
+export async function getProjectKey(config: ConnectionConfig = {}): Promise<string> {
+  const source = await createSource(config);
+  return `${source.organization}/${source.project}`;
+}
+
+/**
+ * Dated iterations that have not finished yet, earliest first
+ */
+export async function getSchedulableIterations(
+  config: ConnectionConfig = {}
+): Promise<IterationOption[]> {
+  const calendar = await getIterationCalendar(await createSource(config));
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  return calendar.iterations.filter(iteration => new Date(iteration.finishDate) >= today);
+}
+
+/**
+ * Every dated iteration of the project (releases, PIs and sprints), earliest first
+ */
+export async function getCalendarIterations(config: ConnectionConfig = {}): Promise<IterationOption[]> {
+  const calendar = await getIterationCalendar(await createSource(config));
+  return calendar.iterations;
+}
+
+/**
+ * Whether the current user can change the work item's iteration. Runs a
+ * validate-only update, so nothing is saved.
+ */
+export async function canScheduleWorkItem(
+  workItemId: string,
+  iterationPath: string,
+  config: ConnectionConfig = {}
+): Promise<boolean> {
+  try {
+    const source = await createSource(config);
+    await source.updateIterationPath(Number(workItemId), iterationPath, true);
+    return true;
+  } catch (error) {
+    console.log(`Work item ${workItemId} cannot be scheduled:`, error);
+    return false;
+  }
+}
+
+/**
+ * Schedule a work item by assigning it to an iteration
+ */
+export async function scheduleWorkItem(
+  workItemId: string,
+  iterationPath: string,
+  config: ConnectionConfig = {}
+): Promise<void> {
+  const source = await createSource(config);
+  await source.updateIterationPath(Number(workItemId), iterationPath);
 }
 
 // Settings helpers
-async function getQueryGuidFromSettings(): Promise<string> {
-  const dataService = await SDK.getService('ms.vss-settings-web.vss-settings-service');
-  const settings = await (dataService as any).getValue('timeline-query-guid', { scopeType: 'User' });
-  return settings || '';
+async function getProjectSettingsOrDefaults(): Promise<ProjectSettings> {
+  try {
+    return await loadProjectSettings();
+  } catch (error) {
+    console.error('Error reading Timeline Settings, using defaults:', error);
+    return DEFAULT_PROJECT_SETTINGS;
+  }
 }
 
 export async function saveQueryGuid(queryGuid: string): Promise<void> {
-  const dataService = await SDK.getService('ms.vss-settings-web.vss-settings-service');
-  await (dataService as any).setValue('timeline-query-guid', queryGuid, { scopeType: 'User' });
+  await saveProjectSettings({ queryGuid: queryGuid.trim() });
 }
\ No newline at end of file
@@ -0,0 +1,82 @@
+// cache-store.ts - Small IndexedDB key/value store for data that can be refetched
+
+const DB_NAME = 'scaled-agile-timeline';
+const DB_VERSION = 1;
+// One store; callers namespace their keys (e.g. "iterations:org/project")
+const STORE_NAME = 'cache';
+
+interface CacheEntry<T> {
+  value: T;
+  savedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again (e.g. after the user leaves private browsing)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function runRequest<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  return openDb().then(db => new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+}
+
+/**
+ * Cached value for the key, or undefined when missing, older than maxAgeMs,
+ * or IndexedDB is unavailable
+ */
+export async function readCache<T>(key: string, maxAgeMs?: number): Promise<{ value: T; savedAt: number } | undefined> {
+  try {
+    const entry = await runRequest<CacheEntry<T> | undefined>('readonly', store => store.get(key));
+    if (!entry) return undefined;
+    if (maxAgeMs !== undefined && Date.now() - entry.savedAt > maxAgeMs) return undefined;
+    return entry;
+  } catch (error) {
+    console.warn(`Cache read failed for ${key}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Store a value; failures are logged and otherwise ignored
+ */
+export async function writeCache<T>(key: string, value: T): Promise<void> {
+  try {
+    const entry: CacheEntry<T> = { value, savedAt: Date.now() };
+    await runRequest('readwrite', store => store.put(entry, key));
+  } catch (error) {
+    console.warn(`Cache write failed for ${key}:`, error);
+  }
+}
+
+export async function deleteCache(key: string): Promise<void> {
+  try {
+    await runRequest('readwrite', store => store.delete(key));
+  } catch (error) {
+    console.warn(`Cache delete failed for ${key}:`, error);
+  }
+}
@@ -0,0 +1,103 @@
+// data-source-registry.ts - Available timeline data sources and the configured one
+
+import type { TimelineDataSource } from '../types/dataSource.types';
+import {
+  AZURE_DEVOPS_DATA_SOURCE_ID,
+  createAzureDevOpsDataSource,
+} from './azure-devops-data-source';
+import { JIRA_DATA_SOURCE_ID, createJiraDataSource, createJiraDataSourceFromEnv } from './jira-data-source';
+import { JiraRecording, JiraTransport, createRecordedJiraTransport } from './jira-client';
+import { GITHUB_DATA_SOURCE_ID, createGitHubDataSource, createGitHubDataSourceFromEnv } from './github-data-source';
+import { GitHubRecording, GitHubTransport, createRecordedGitHubTransport } from './github-client';
+import { SPREADSHEET_DATA_SOURCE_ID, createSpreadsheetDataSource } from './spreadsheet-data-source';
+
+export type DataSourceFactory = () => TimelineDataSource;
+
+const factories = new Map<string, DataSourceFactory>();
+// One instance per provider, so provider-side caches survive remounts
+const instances = new Map<string, TimelineDataSource>();
+
+export function registerDataSource(id: string, factory: DataSourceFactory): void {
+  factories.set(id, factory);
+  instances.delete(id);
+}
+
+export function getRegisteredDataSourceIds(): string[] {
+  return Array.from(factories.keys());
+}
+
+export function getDataSource(id: string): TimelineDataSource {
+  const existing = instances.get(id);
+  if (existing) return existing;
+
+  const factory = factories.get(id);
+  if (!factory) {
+    throw new Error(
+      `Unknown data source "${id}". Set REACT_APP_DATA_SOURCE to one of: ${getRegisteredDataSourceIds().join(', ')}`
+    );
+  }
+
+  const dataSource = factory();
+  instances.set(id, dataSource);
+  return dataSource;
+}
+
+/**
+ * Id of the provider picked by REACT_APP_DATA_SOURCE, Azure DevOps when unset
+ */
+export function getConfiguredDataSourceId(): string {
+  return process.env.REACT_APP_DATA_SOURCE?.trim() || AZURE_DEVOPS_DATA_SOURCE_ID;
+}
+
+export function getConfiguredDataSource(): TimelineDataSource {
+  return getDataSource(getConfiguredDataSourceId());
+}
+
+registerDataSource(AZURE_DEVOPS_DATA_SOURCE_ID, createAzureDevOpsDataSource);
+registerDataSource(JIRA_DATA_SOURCE_ID, createJiraDataSourceFromEnv);
+registerDataSource(GITHUB_DATA_SOURCE_ID, createGitHubDataSourceFromEnv);
+registerDataSource(SPREADSHEET_DATA_SOURCE_ID, createSpreadsheetDataSource);
+
+// Jira answered from the bundled sample recording, for demos and offline work
+registerDataSource('jira-recorded', () => {
+  const transport: JiraTransport = async (method, path, body, signal) => {
+    const recording = await import('./recordings/jira-sample.json');
+    return createRecordedJiraTransport(recording.default as JiraRecording)(method, path, body, signal);
+  };
+
+  return createJiraDataSource({
+    deployment: 'cloud',
+    browseUrl: 'https://example.atlassian.net',
+    scopeJql: 'project in (PAY, CHK)',
+    hierarchy: [
+      { name: 'Initiatives', issueTypes: ['Initiative'] },
+      { name: 'Epics', issueTypes: ['Epic'] },
+      { name: 'Stories', issueTypes: ['Story', 'Task', 'Bug'] },
+    ],
+    parentFields: [],
+    sprintField: 'customfield_10020',
+    dateSource: 'sprints',
+    groupBy: 'project',
+  }, transport);
+});
+
+// GitHub answered from the bundled sample GraphQL responses
+registerDataSource('github-recorded', () => {
+  const transport: GitHubTransport = async (query, variables, signal) => {
+    const recording = await import('./recordings/github-sample.json');
+    return createRecordedGitHubTransport(recording.default as GitHubRecording)(query, variables, signal);
+  };
+
+  return createGitHubDataSource({
+    owner: 'example-org',
+    projectNumber: 7,
+    hierarchy: [
+      { name: 'Epics', issueTypes: ['Epic'] },
+      { name: 'Features', issueTypes: ['Feature'] },
+      { name: 'Tasks', issueTypes: ['Task', 'Bug'] },
+    ],
+    iterationField: 'Iteration',
+    statusField: 'Status',
+    views: [],
+  }, transport);
+});
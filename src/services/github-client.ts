@@ -0,0 +1,281 @@
+// github-client.ts - GitHub GraphQL calls behind a swappable transport (HTTP or a recording)
+
+import { RequestError, RequestErrorKind, requestJson } from './http-request';
+
+/**
+ * Runs one GraphQL operation and returns its `data`
+ */
+export type GitHubTransport = <T = unknown>(
+  query: string,
+  variables: Record<string, unknown>,
+  signal?: AbortSignal
+) => Promise<T>;
+
+export interface GitHubHttpOptions {
+  token: string;
+  // GitHub Enterprise Server: https://HOST/api/graphql
+  apiUrl?: string;
+}
+
+const GITHUB_GRAPHQL_URL = 'https://api.github.com/graphql';
+
+interface GraphQLResponse {
+  data?: unknown;
+  errors?: Array<{ type?: string; message: string }>;
+}
+
+// GraphQL error types onto the request error kinds the UI gives advice for
+const GRAPHQL_ERROR_KINDS: Record<string, RequestErrorKind> = {
+  RATE_LIMITED: 'throttled',
+  FORBIDDEN: 'permission',
+  NOT_FOUND: 'notFound',
+};
+
+export function createHttpGitHubTransport({ token, apiUrl = GITHUB_GRAPHQL_URL }: GitHubHttpOptions): GitHubTransport {
+  return async <T,>(query: string, variables: Record<string, unknown>, signal?: AbortSignal) => {
+    const body = await requestJson<GraphQLResponse>(apiUrl, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+        // Sub-issues are still behind a preview header on some GitHub Enterprise versions
+        'GraphQL-Features': 'sub_issues',
+      },
+      body: JSON.stringify({ query, variables }),
+    }, { signal });
+
+    // GraphQL reports failures with a 200 and an errors array
+    if (body.errors?.length) {
+      const kind = GRAPHQL_ERROR_KINDS[body.errors[0].type || ''] || 'server';
+      throw new RequestError(kind, `GitHub GraphQL error: ${body.errors.map(error => error.message).join('; ')}`);
+    }
+    return body.data as T;
+  };
+}
+
+/**
+ * A recorded response. Requests match on the operation name; with
+ * `variables` set, those variables must also be equal (e.g. a page cursor).
+ */
+export interface GitHubRecordedResponse {
+  operation: string;
+  variables?: Record<string, unknown>;
+  data: unknown;
+}
+
+export interface GitHubRecording {
+  responses: GitHubRecordedResponse[];
+}
+
+// "query ProjectItems($id: ID!) { ..." -> "ProjectItems"
+function getOperationName(query: string): string {
+  return query.match(/^\s*(?:query|mutation)\s+(\w+)/)?.[1] || '';
+}
+
+/**
+ * Transport that answers from a recording instead of GitHub, so the
+ * provider can run offline. The first matching entry wins.
+ */
+export function createRecordedGitHubTransport(recording: GitHubRecording): GitHubTransport {
+  return async <T,>(query: string, variables: Record<string, unknown>) => {
+    const operation = getOperationName(query);
+    const entry = recording.responses.find(candidate =>
+      candidate.operation === operation &&
+      Object.entries(candidate.variables || {}).every(([name, value]) => variables[name] === value)
+    );
+
+    if (!entry) {
+      throw new Error(`No recorded GitHub response for ${operation} ${JSON.stringify(variables)}`);
+    }
+    // Copy, so callers can't change the recording
+    return JSON.parse(JSON.stringify(entry.data)) as T;
+  };
+}
+
+const ISSUE_FIELDS = `
+  fragment IssueFields on Issue {
+    id
+    number
+    title
+    url
+    state
+    closedAt
+    repository { nameWithOwner }
+    issueType { name }
+    labels(first: 20) { nodes { name } }
+    assignees(first: 1) { nodes { login name } }
+    milestone { id title dueOn createdAt }
+    parent { id }
+    trackedInIssues(first: 5) { nodes { id } }
+  }
+`;
+
+const PROJECT_QUERY = `
+  query ProjectViews($owner: String!, $number: Int!) {
+    repositoryOwner(login: $owner) {
+      ... on ProjectV2Owner {
+        projectV2(number: $number) {
+          id
+          title
+          url
+          views(first: 50) { nodes { number name layout filter } }
+        }
+      }
+    }
+  }
+`;
+
+const ITEMS_QUERY = `
+  query ProjectItems($projectId: ID!, $cursor: String) {
+    node(id: $projectId) {
+      ... on ProjectV2 {
+        items(first: 100, after: $cursor) {
+          pageInfo { hasNextPage endCursor }
+          nodes {
+            id
+            fieldValues(first: 20) {
+              nodes {
+                ... on ProjectV2ItemFieldIterationValue {
+                  title
+                  startDate
+                  duration
+                  field { ... on ProjectV2FieldCommon { name } }
+                }
+                ... on ProjectV2ItemFieldSingleSelectValue {
+                  name
+                  field { ... on ProjectV2FieldCommon { name } }
+                }
+                ... on ProjectV2ItemFieldTextValue {
+                  text
+                  field { ... on ProjectV2FieldCommon { name } }
+                }
+              }
+            }
+            content {
+              ... on Issue {
+                ...IssueFields
+                subIssues(first: 50) { nodes { ...IssueFields } }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+  ${ISSUE_FIELDS}
+`;
+
+export interface GitHubProjectView {
+  number: number;
+  name: string;
+  layout: string;
+  // Filter as typed in the view, e.g. "label:payments -status:Done"
+  filter: string | null;
+}
+
+export interface GitHubProject {
+  id: string;
+  title: string;
+  url: string;
+  views: GitHubProjectView[];
+}
+
+export interface GitHubMilestone {
+  id: string;
+  title: string;
+  dueOn: string | null;
+  createdAt: string;
+}
+
+/**
+ * An issue as selected by IssueFields
+ */
+export interface GitHubIssue {
+  id: string;
+  number: number;
+  title: string;
+  url: string;
+  state: 'OPEN' | 'CLOSED';
+  closedAt: string | null;
+  repository: { nameWithOwner: string };
+  issueType: { name: string } | null;
+  labels: { nodes: Array<{ name: string }> };
+  assignees: { nodes: Array<{ login: string; name: string | null }> };
+  milestone: GitHubMilestone | null;
+  parent: { id: string } | null;
+  trackedInIssues: { nodes: Array<{ id: string }> };
+}
+
+/**
+ * A project field value. Iteration values set title, startDate and
+ * duration (in days), single selects name, text fields text.
+ */
+export interface GitHubFieldValue {
+  field?: { name?: string };
+  title?: string;
+  startDate?: string;
+  duration?: number;
+  name?: string;
+  text?: string;
+}
+
+export interface GitHubProjectItem {
+  id: string;
+  fieldValues: { nodes: Array<GitHubFieldValue | null> };
+  // Draft issues and pull requests come back as an empty object, without an id
+  content: (GitHubIssue & { subIssues?: { nodes: GitHubIssue[] } }) | null;
+}
+
+interface ProjectViewsData {
+  repositoryOwner: {
+    projectV2?: Omit<GitHubProject, 'views'> & { views: { nodes: GitHubProjectView[] } | null } | null;
+  } | null;
+}
+
+interface ProjectItemsData {
+  node: {
+    items?: {
+      pageInfo: { hasNextPage: boolean; endCursor: string | null };
+      nodes: GitHubProjectItem[];
+    };
+  } | null;
+}
+
+/**
+ * Project (v2) of a user or organization, with its views
+ */
+export async function getGitHubProject(
+  transport: GitHubTransport,
+  owner: string,
+  number: number,
+  signal?: AbortSignal
+): Promise<GitHubProject> {
+  const data = await transport<ProjectViewsData>(PROJECT_QUERY, { owner, number }, signal);
+  const project = data.repositoryOwner?.projectV2;
+  if (!project) {
+    throw new RequestError('notFound', `GitHub project ${owner}/${number} not found, or the token cannot read it`);
+  }
+  return { ...project, views: project.views?.nodes || [] };
+}
+
+/**
+ * Every item of the project, following pagination. Draft issues and pull
+ * requests come back with empty content.
+ */
+export async function getGitHubProjectItems(
+  transport: GitHubTransport,
+  projectId: string,
+  signal?: AbortSignal
+): Promise<GitHubProjectItem[]> {
+  const items: GitHubProjectItem[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const data: ProjectItemsData = await transport<ProjectItemsData>(ITEMS_QUERY, { projectId, cursor }, signal);
+    const page = data.node?.items;
+    items.push(...(page?.nodes || []));
+    cursor = page?.pageInfo?.hasNextPage ? page.pageInfo.endCursor : null;
+  } while (cursor);
+
+  return items;
+}
@@ -0,0 +1,446 @@
+// github-data-source.ts - GitHub Projects (issues, sub-issues, tracked-by) as a timeline data source
+
+import type { ErrorGuidance, TimelineDataSource, TimelineFetchRequest } from '../types/dataSource.types';
+import type { GenericWorkItem, TimelineData, UnscheduledWorkItem } from '../utils/dataAdapter';
+import { DateRange, HierarchyLevel, parseHierarchy, spanOf, toIsoDate } from '../utils/hierarchyDates';
+import {
+  GitHubFieldValue,
+  GitHubIssue,
+  GitHubMilestone,
+  GitHubProjectItem,
+  GitHubProjectView,
+  GitHubTransport,
+  createHttpGitHubTransport,
+  getGitHubProject,
+  getGitHubProjectItems,
+} from './github-client';
+import type { RequestErrorKind } from './http-request';
+
+export const GITHUB_DATA_SOURCE_ID = 'github';
+
+// Issue types are matched against the issue type, or a label with the same name
+export type GitHubLevel = HierarchyLevel;
+
+export interface GitHubDataSourceConfig {
+  owner: string;
+  projectNumber: number;
+  // Levels top first. The timeline's Epic root is the first level, its Feature root the second.
+  hierarchy: GitHubLevel[];
+  // Project fields read for dates and state
+  iterationField: string;
+  statusField: string;
+  // View numbers that become value streams; every view when empty
+  views: number[];
+}
+
+const DEFAULT_HIERARCHY = 'Epic>Feature>Task,Bug';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ERROR_GUIDANCE: Partial<Record<RequestErrorKind, ErrorGuidance>> = {
+  auth: {
+    title: 'Sign-in Required',
+    action: 'GitHub rejected the token. Create a new token that can read the project (read:project scope, plus repo for private repositories) and update REACT_APP_GITHUB_TOKEN.',
+  },
+  permission: {
+    title: 'Access Denied',
+    action: 'The token cannot read this project or its repositories. Check its scopes, and for an organization project whether the organization has approved the token.',
+  },
+  notFound: {
+    title: 'Not Found',
+    action: 'The project could not be found. Check REACT_APP_GITHUB_OWNER and REACT_APP_GITHUB_PROJECT (the number in the project URL).',
+  },
+  throttled: {
+    title: 'Rate Limit Reached',
+    action: 'The token has used up its GitHub API rate limit. Wait until it resets (at most an hour), then reload the page.',
+  },
+  network: {
+    title: 'Cannot Reach GitHub',
+    action: 'Check your network connection or VPN. For GitHub Enterprise Server, also check REACT_APP_GITHUB_API_URL.',
+  },
+  server: {
+    title: 'GitHub Error',
+    action: 'GitHub could not complete the request. Try again in a few minutes.',
+  },
+};
+
+/**
+ * Connection and mapping from REACT_APP_GITHUB_* settings in .env
+ */
+export function getGitHubConfigFromEnv(): GitHubDataSourceConfig & { token: string; apiUrl?: string } {
+  const token = process.env.REACT_APP_GITHUB_TOKEN?.trim();
+  const owner = process.env.REACT_APP_GITHUB_OWNER?.trim();
+  const projectNumber = Number(process.env.REACT_APP_GITHUB_PROJECT);
+  if (!token || !owner || !projectNumber) {
+    throw new Error(
+      'Missing GitHub config. Set REACT_APP_GITHUB_TOKEN, REACT_APP_GITHUB_OWNER and REACT_APP_GITHUB_PROJECT (the project number) in .env'
+    );
+  }
+
+  return {
+    token,
+    apiUrl: process.env.REACT_APP_GITHUB_API_URL?.trim() || undefined,
+    owner,
+    projectNumber,
+    hierarchy: parseHierarchy(process.env.REACT_APP_GITHUB_HIERARCHY || DEFAULT_HIERARCHY),
+    iterationField: process.env.REACT_APP_GITHUB_ITERATION_FIELD?.trim() || 'Iteration',
+    statusField: process.env.REACT_APP_GITHUB_STATUS_FIELD?.trim() || 'Status',
+    views: (process.env.REACT_APP_GITHUB_VIEWS || '')
+      .split(',')
+      .map(view => Number(view.trim()))
+      .filter(Boolean),
+  };
+}
+
+/**
+ * An issue with the values of its project fields (by lower-cased field
+ * name). Sub-issues that are not on the project have no field values.
+ */
+interface IssueRecord {
+  issue: GitHubIssue;
+  fieldValues: Map<string, GitHubFieldValue>;
+  onProject: boolean;
+}
+
+interface IssueNode extends IssueRecord {
+  parentId?: string;
+  children: IssueNode[];
+}
+
+// Project field values by lower-cased field name
+function getFieldValues(item: GitHubProjectItem): Map<string, GitHubFieldValue> {
+  const values = new Map<string, GitHubFieldValue>();
+  (item.fieldValues?.nodes || []).forEach(value => {
+    const name = value?.field?.name;
+    if (name) values.set(name.toLowerCase(), value);
+  });
+  return values;
+}
+
+// Text of a single select or text field value
+const fieldText = (value?: GitHubFieldValue): string | undefined => value?.name ?? value?.text ?? value?.title;
+
+const STATE_CATEGORY_PATTERNS: Array<[RegExp, string]> = [
+  [/done|complete|closed|shipped/i, 'Completed'],
+  [/progress|review|doing|active|testing/i, 'InProgress'],
+];
+
+/**
+ * A view filter, e.g. `label:payments,checkout -status:Done is:open "fraud"`,
+ * as qualifier tokens. Qualifiers the timeline can't evaluate are ignored.
+ */
+interface FilterToken {
+  negated: boolean;
+  qualifier?: string;
+  values: string[];
+}
+
+function parseViewFilter(filter: string | null): FilterToken[] {
+  const tokens: FilterToken[] = [];
+  const value = '(?:"[^"]*"|[^\\s,"]+)';
+  const pattern = new RegExp(`(-?)(?:([\\w-]+):)?(${value}(?:,${value})*)`, 'g');
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(filter || '')) !== null) {
+    const [, negation, qualifier, rawValue] = match;
+    const values = qualifier
+      ? rawValue.split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/)
+      : [rawValue];
+    tokens.push({
+      negated: negation === '-',
+      qualifier: qualifier?.toLowerCase(),
+      values: values.map(value => value.replace(/^"|"$/g, '').toLowerCase()).filter(Boolean),
+    });
+  }
+  return tokens;
+}
+
+const UNSUPPORTED_QUALIFIERS = new Set([
+  'no', 'has', 'reason', 'created', 'updated', 'closed', 'last-updated', 'parent-issue', 'sub-issues-progress',
+]);
+
+function matchesViewFilter(record: IssueRecord, tokens: FilterToken[]): boolean {
+  const { issue, fieldValues } = record;
+  const lower = (values: Array<string | undefined>) =>
+    values.filter((value): value is string => !!value).map(value => value.toLowerCase());
+
+  return tokens.every(token => {
+    let candidates: string[] | null;
+    switch (token.qualifier) {
+      case undefined:
+        // Free text searches the title
+        return token.negated !== issue.title.toLowerCase().includes(token.values[0] || '');
+      case 'is':
+        candidates = lower([issue.state, 'issue']);
+        break;
+      case 'label':
+        candidates = lower((issue.labels?.nodes || []).map(label => label.name));
+        break;
+      case 'repo':
+        candidates = lower([issue.repository?.nameWithOwner]);
+        break;
+      case 'milestone':
+        candidates = lower([issue.milestone?.title]);
+        break;
+      case 'assignee':
+        candidates = lower((issue.assignees?.nodes || []).map(assignee => assignee.login));
+        break;
+      case 'type':
+        candidates = lower([issue.issueType?.name]);
+        break;
+      default:
+        // A project field, e.g. status:"In Progress" or team:Payments
+        candidates = UNSUPPORTED_QUALIFIERS.has(token.qualifier)
+          ? null
+          : lower([fieldText(fieldValues.get(token.qualifier))]);
+    }
+    // @me, @current and date or progress qualifiers can't be evaluated here
+    if (candidates === null || token.values.some(value => value.startsWith('@'))) return true;
+
+    const matched = token.values.some(value => candidates!.includes(value));
+    return token.negated ? !matched : matched;
+  });
+}
+
+export function createGitHubDataSource(
+  config: GitHubDataSourceConfig,
+  transport: GitHubTransport
+): TimelineDataSource {
+  const iterationFieldKey = config.iterationField.toLowerCase();
+  const statusFieldKey = config.statusField.toLowerCase();
+
+  const levelOf = (issue: GitHubIssue) => {
+    const labels: string[] = (issue.labels?.nodes || []).map(label => label.name.toLowerCase());
+    const type = issue.issueType?.name?.toLowerCase();
+    return config.hierarchy.findIndex(level =>
+      level.issueTypes.some(name => name.toLowerCase() === type || labels.includes(name.toLowerCase()))
+    );
+  };
+
+  // Issue type, or the hierarchy label that put the issue on its level
+  const typeOf = (issue: GitHubIssue) => {
+    if (issue.issueType?.name) return issue.issueType.name;
+    const levelIndex = levelOf(issue);
+    if (levelIndex < 0) return 'Issue';
+    const labels: string[] = (issue.labels?.nodes || []).map(label => label.name.toLowerCase());
+    return config.hierarchy[levelIndex].issueTypes.find(name => labels.includes(name.toLowerCase())) || 'Issue';
+  };
+
+  const fetchTimeline = async (request: TimelineFetchRequest): Promise<TimelineData> => {
+    const { rootWorkItemType, startDate, endDate, signal, onProgress } = request;
+    const rootIndex = rootWorkItemType === 'Feature' ? 1 : 0;
+    const rootLevel = config.hierarchy[rootIndex];
+    if (!rootLevel) {
+      throw new Error(
+        `The GitHub hierarchy has no level ${rootIndex + 1} for ${rootWorkItemType} roots. Check REACT_APP_GITHUB_HIERARCHY.`
+      );
+    }
+
+    console.log(`=== Starting GitHub Fetch (Root: ${rootLevel.name}) ===`);
+    const progress = { phase: 'Loading GitHub project items', loaded: 0, total: 0, failed: 0 };
+    onProgress?.({ ...progress });
+
+    const project = await getGitHubProject(transport, config.owner, config.projectNumber, signal);
+    const items = await getGitHubProjectItems(transport, project.id, signal);
+
+    // Project items first, then sub-issues that are not on the project themselves
+    const records = new Map<string, IssueRecord>();
+    items.forEach(item => {
+      if (item.content?.id) {
+        records.set(item.content.id, { issue: item.content, fieldValues: getFieldValues(item), onProject: true });
+      }
+    });
+    items.forEach(item => {
+      (item.content?.subIssues?.nodes || []).forEach(subIssue => {
+        if (!records.has(subIssue.id)) {
+          records.set(subIssue.id, { issue: subIssue, fieldValues: new Map(), onProject: false });
+        }
+      });
+    });
+
+    progress.loaded = progress.total = records.size;
+    onProgress?.({ ...progress });
+    console.log(`Loaded ${records.size} GitHub issues from project "${project.title}"`);
+
+    // Tree from sub-issue parents, falling back to the first "tracked by" issue
+    const nodes = new Map<string, IssueNode>();
+    records.forEach((record, id) => nodes.set(id, {
+      ...record,
+      parentId: record.issue.parent?.id || record.issue.trackedInIssues?.nodes?.[0]?.id,
+      children: [],
+    }));
+    nodes.forEach(node => {
+      const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+      if (parent) parent.children.push(node);
+    });
+
+    // Milestones only have a due date; one starts the day after the repository's previous one
+    const milestoneDates = new Map<string, DateRange>();
+    const milestonesByRepo = new Map<string, Array<GitHubMilestone & { dueOn: string }>>();
+    records.forEach(({ issue: { milestone, repository } }) => {
+      if (!milestone?.dueOn) return;
+      const repo = repository?.nameWithOwner || '';
+      const milestones = milestonesByRepo.get(repo) || [];
+      if (!milestones.some(({ id }) => id === milestone.id)) milestones.push({ ...milestone, dueOn: milestone.dueOn });
+      milestonesByRepo.set(repo, milestones);
+    });
+    milestonesByRepo.forEach(milestones => {
+      milestones.sort((a, b) => a.dueOn.localeCompare(b.dueOn));
+      milestones.forEach((milestone, index) => {
+        const previous = milestones[index - 1];
+        const start = previous
+          ? new Date(new Date(previous.dueOn).getTime() + DAY_MS)
+          : new Date(milestone.createdAt || milestone.dueOn);
+        milestoneDates.set(milestone.id, { start: toIsoDate(start), end: toIsoDate(milestone.dueOn) });
+      });
+    });
+
+    const getOwnDates = (node: IssueNode): { dates: DateRange; dateSource: string; label?: string } | null => {
+      const iteration = node.fieldValues.get(iterationFieldKey);
+      if (iteration?.startDate && iteration.duration) {
+        const end = new Date(new Date(iteration.startDate).getTime() + (iteration.duration - 1) * DAY_MS);
+        return {
+          dates: { start: toIsoDate(iteration.startDate), end: toIsoDate(end) },
+          dateSource: 'iteration',
+          label: iteration.title,
+        };
+      }
+
+      const milestone = node.issue.milestone;
+      const range = milestone ? milestoneDates.get(milestone.id) : undefined;
+      if (milestone && range) return { dates: range, dateSource: 'milestone', label: milestone.title };
+      return null;
+    };
+
+    const getState = (node: IssueNode) => {
+      const status = fieldText(node.fieldValues.get(statusFieldKey));
+      const closed = node.issue.state === 'CLOSED';
+      const state = status || (closed ? 'Closed' : 'Open');
+      const stateCategory = closed
+        ? 'Completed'
+        : STATE_CATEGORY_PATTERNS.find(([pattern]) => pattern.test(state))?.[1] || 'Proposed';
+      return { state, stateCategory };
+    };
+
+    const idOf = (issue: GitHubIssue) => `${issue.repository?.nameWithOwner || ''}#${issue.number}`;
+
+    const convert = (
+      node: IssueNode,
+      unscheduled: UnscheduledWorkItem[],
+      parentId?: string
+    ): GenericWorkItem | null => {
+      const { issue } = node;
+      const id = idOf(issue);
+      const children = node.children
+        .map(child => convert(child, unscheduled, id))
+        .filter((child): child is GenericWorkItem => !!child);
+
+      const own = getOwnDates(node);
+      const dates = own?.dates || spanOf(children.map(child => ({ start: child.iterationStart, end: child.iterationEnd })));
+      const { state, stateCategory } = getState(node);
+
+      if (!dates) {
+        unscheduled.push({
+          id,
+          title: issue.title,
+          workItemType: typeOf(issue),
+          state,
+          parentId,
+          childCount: node.children.length,
+          reason: `No ${config.iterationField} or milestone with dates, and no children with dates`,
+        });
+        return null;
+      }
+
+      const levelIndex = levelOf(issue);
+      const childLevelOfItem = levelIndex >= 0 ? config.hierarchy[levelIndex + 1] : undefined;
+
+      return {
+        id,
+        title: issue.title,
+        workItemType: typeOf(issue),
+        state,
+        stateCategory,
+        iterationStart: dates.start,
+        iterationEnd: dates.end,
+        iterationPath: own?.label,
+        dateSource: own?.dateSource || 'childIterations',
+        assignedTo: issue.assignees?.nodes?.[0]?.name || issue.assignees?.nodes?.[0]?.login,
+        tags: (issue.labels?.nodes || []).map(label => label.name),
+        url: issue.url,
+        backlogLevel: levelIndex >= 0 ? config.hierarchy[levelIndex].name : undefined,
+        childLevel: childLevelOfItem?.name,
+        childCount: childLevelOfItem ? node.children.length : undefined,
+        completedChildCount: childLevelOfItem
+          ? node.children.filter(child => child.issue.state === 'CLOSED').length
+          : undefined,
+        children,
+      };
+    };
+
+    // Roots are project items of the root level; items one level below whose
+    // parent isn't loaded go to the Unparented row. Items closed before the
+    // window are left out.
+    const openOrRecent = (node: IssueNode) =>
+      node.issue.state !== 'CLOSED' || !node.issue.closedAt || new Date(node.issue.closedAt) >= startDate;
+    const topLevel = Array.from(nodes.values()).filter(node => node.onProject && openOrRecent(node));
+    const roots = topLevel.filter(node => levelOf(node.issue) === rootIndex);
+    const orphans = topLevel.filter(node =>
+      levelOf(node.issue) === rootIndex + 1 && !(node.parentId && nodes.has(node.parentId))
+    );
+
+    // Bars outside the window are left out, like the Azure DevOps root filter
+    const inWindow = (item: GenericWorkItem) =>
+      new Date(item.iterationEnd) >= startDate && new Date(item.iterationStart) <= endDate;
+
+    // Views become value streams; a project without views is one stream
+    const views: GitHubProjectView[] = project.views.length > 0
+      ? project.views.filter(view => config.views.length === 0 || config.views.includes(view.number))
+      : [{ number: 0, name: project.title, layout: 'TABLE_LAYOUT', filter: null }];
+
+    const valueStreams = views
+      .map(view => {
+        const tokens = parseViewFilter(view.filter);
+        const lane = { id: `view-${view.number}`, name: view.name, workItems: [] as GenericWorkItem[], unparented: [] as GenericWorkItem[], unscheduled: [] as UnscheduledWorkItem[] };
+
+        const addTopLevel = (node: IssueNode, target: 'workItems' | 'unparented') => {
+          if (!matchesViewFilter(node, tokens)) return;
+          // Undated children of a bar outside the window are left out with it
+          const unscheduled: UnscheduledWorkItem[] = [];
+          const item = convert(node, unscheduled);
+          if (item && !inWindow(item)) return;
+          if (item) lane[target].push(item);
+          lane.unscheduled.push(...unscheduled);
+        };
+
+        roots.forEach(node => addTopLevel(node, 'workItems'));
+        orphans.forEach(node => addTopLevel(node, 'unparented'));
+        return lane;
+      })
+      .filter(lane => lane.workItems.length > 0 || lane.unparented.length > 0 || lane.unscheduled.length > 0);
+
+    console.log(`=== Completed: ${valueStreams.length} value streams from GitHub ===`);
+    return { valueStreams };
+  };
+
+  return {
+    id: GITHUB_DATA_SOURCE_ID,
+    name: 'GitHub',
+    capabilities: {
+      incrementalRefresh: false,
+      scheduling: false,
+    },
+    errorGuidance: ERROR_GUIDANCE,
+    getCacheScope: async () => `github:${config.owner}/${config.projectNumber}`,
+    fetch: fetchTimeline,
+    refresh: fetchTimeline,
+  };
+}
+
+/**
+ * GitHub project configured in .env
+ */
+export function createGitHubDataSourceFromEnv(): TimelineDataSource {
+  const { token, apiUrl, ...config } = getGitHubConfigFromEnv();
+  return createGitHubDataSource(config, createHttpGitHubTransport({ token, apiUrl }));
+}
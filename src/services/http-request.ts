@@ -0,0 +1,211 @@
+// http-request.ts - Request layer shared by the data sources (Azure DevOps REST and SDK, Jira, GitHub)
+
+/**
+ * What went wrong with a request, in terms the UI can act on
+ */
+export type RequestErrorKind =
+  | 'auth'        // 401: missing, expired or rejected credentials
+  | 'permission'  // 403: signed in but not allowed
+  | 'notFound'    // 404: project, query or work item does not exist
+  | 'throttled'   // 429: rate limited by the server
+  | 'network'     // request never reached the server
+  | 'server'      // any other failed response
+  | 'cancelled';  // aborted by the caller
+
+export class RequestError extends Error {
+  readonly kind: RequestErrorKind;
+  readonly status?: number;
+  // Delay the server asked for (Retry-After), in milliseconds
+  readonly retryAfterMs?: number;
+
+  constructor(kind: RequestErrorKind, message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'RequestError';
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export function isRequestError(error: unknown): error is RequestError {
+  return error instanceof RequestError;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  // Retries after the first attempt for throttled, network and 5xx failures
+  maxRetries?: number;
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+function getErrorKindForStatus(status: number): RequestErrorKind {
+  if (status === 401) return 'auth';
+  if (status === 403) return 'permission';
+  if (status === 404) return 'notFound';
+  if (status === 429) return 'throttled';
+  return 'server';
+}
+
+/**
+ * GitHub answers a used up rate limit with a 403 rather than a 429, marked
+ * by X-RateLimit-Remaining: 0 or (secondary limits) a Retry-After header
+ */
+function getErrorKindForResponse(response: Response): RequestErrorKind {
+  const { status, headers } = response;
+  if (status === 403 && (headers.get('X-RateLimit-Remaining') === '0' || headers.has('Retry-After'))) {
+    return 'throttled';
+  }
+  return getErrorKindForStatus(status);
+}
+
+function isRetryable(error: RequestError): boolean {
+  return (
+    error.kind === 'throttled' ||
+    error.kind === 'network' ||
+    (error.kind === 'server' && (error.status === undefined || error.status >= 500))
+  );
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// X-RateLimit-Reset is the time the limit resets, in seconds since the epoch
+function parseRateLimitReset(header: string | null): number | undefined {
+  const seconds = Number(header);
+  return header && !isNaN(seconds) ? Math.max(0, seconds * 1000 - Date.now()) : undefined;
+}
+
+function getRetryDelay(attempt: number, error: RequestError): number {
+  if (error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, MAX_RETRY_DELAY_MS);
+  }
+  const exponential = Math.min(BASE_RETRY_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+const cancelledError = () => new RequestError('cancelled', 'Request was cancelled');
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Map whatever a request threw (fetch TypeError, AbortError, or the
+ * extension API's VssServerError with a status) to a typed error.
+ * Anything else is returned unchanged.
+ */
+export function toRequestError(error: any): RequestError | any {
+  if (isRequestError(error)) return error;
+
+  if (error?.name === 'AbortError') return cancelledError();
+
+  if (typeof error?.status === 'number') {
+    return new RequestError(
+      getErrorKindForStatus(error.status),
+      error.message || `Request failed (${error.status})`,
+      error.status
+    );
+  }
+
+  // fetch rejects with a TypeError when the server can't be reached; the SDK
+  // client reports the same as a NetworkException
+  if (error instanceof TypeError || error?.name === 'NetworkException') {
+    return new RequestError('network', error.message || 'Unable to contact the server');
+  }
+
+  return error;
+}
+
+/**
+ * Run a request, retrying throttled, network and 5xx failures with
+ * exponential backoff (or the server's Retry-After)
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RequestOptions = {}
+): Promise<T> {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    if (options.signal?.aborted) throw cancelledError();
+
+    try {
+      return await operation();
+    } catch (rawError) {
+      const error = toRequestError(rawError);
+      if (options.signal?.aborted) throw cancelledError();
+
+      if (!isRequestError(error) || !isRetryable(error) || attempt >= maxRetries) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(attempt, error);
+      console.warn(
+        `Request failed (${error.kind}${error.status ? ` ${error.status}` : ''}), ` +
+        `retrying in ${Math.round(delay / 1000)}s (${attempt + 1}/${maxRetries})`
+      );
+      await wait(delay, options.signal);
+    }
+  }
+}
+
+/**
+ * fetch + status check + JSON, with retries and cancellation
+ */
+export async function requestJson<T = any>(
+  url: string,
+  init: RequestInit = {},
+  options: RequestOptions = {}
+): Promise<T> {
+  return withRetry(async () => {
+    const response = await fetch(url, { ...init, signal: options.signal });
+
+    if (!response.ok) {
+      let message = `${response.status} ${response.statusText}`.trim();
+      try {
+        const body = await response.json();
+        if (body?.message) message = body.message;
+      } catch {
+        // Not a JSON error body
+      }
+
+      throw new RequestError(
+        getErrorKindForResponse(response),
+        message,
+        response.status,
+        parseRetryAfter(response.headers.get('Retry-After')) ??
+          parseRateLimitReset(response.headers.get('X-RateLimit-Reset'))
+      );
+    }
+
+    return response.json();
+  }, options);
+}
@@ -0,0 +1,142 @@
+// iteration-calendar-service.ts - One copy of the project's iteration dates per session
+
+import { readCache, writeCache } from './cache-store';
+
+export interface IterationDates {
+  startDate: string;
+  finishDate: string;
+}
+
+export interface CalendarIteration extends IterationDates {
+  path: string;
+}
+
+/**
+ * Dated iterations of a project, answering the lookups the timeline needs
+ */
+export interface IterationCalendar {
+  projectName: string;
+  // Every iteration with start and finish dates, earliest first
+  iterations: CalendarIteration[];
+  // Dates for a path, with or without the project prefix
+  getDates(iterationPath: string): IterationDates | undefined;
+  getIterationsOverlapping(rangeStart: Date, rangeEnd: Date): CalendarIteration[];
+}
+
+// Iteration dates rarely change during a planning session
+const ITERATION_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+const calendarsInFlight = new Map<string, { promise: Promise<IterationCalendar>; loadedAt: number }>();
+
+/**
+ * Walk the classification tree and collect every node with dates, keyed by
+ * its full path (project\release\sprint)
+ */
+export function extractIterationsFromNode(
+  node: any,
+  parentPath: string = ''
+): Map<string, IterationDates> {
+  const iterationMap = new Map<string, IterationDates>();
+
+  if (!node) return iterationMap;
+
+  const currentPath = parentPath ? `${parentPath}\\${node.name}` : node.name;
+
+  if (node.attributes && node.attributes.startDate && node.attributes.finishDate) {
+    iterationMap.set(currentPath, {
+      startDate: node.attributes.startDate,
+      finishDate: node.attributes.finishDate
+    });
+  }
+
+  if (node.children && Array.isArray(node.children)) {
+    for (const child of node.children) {
+      extractIterationsFromNode(child, currentPath).forEach((value, key) => {
+        iterationMap.set(key, value);
+      });
+    }
+  }
+
+  return iterationMap;
+}
+
+/**
+ * Spellings a work item may use for the same iteration: as stored, with the
+ * project prefix added, or with it removed
+ */
+export function normalizeIterationPath(iterationPath: string, projectName: string): string[] {
+  const variations: string[] = [];
+  variations.push(iterationPath);
+
+  if (!iterationPath.startsWith(projectName)) {
+    variations.push(`${projectName}\\${iterationPath}`);
+  }
+
+  if (iterationPath.startsWith(`${projectName}\\`)) {
+    variations.push(iterationPath.substring(projectName.length + 1));
+  }
+
+  return variations;
+}
+
+export function createIterationCalendar(
+  projectName: string,
+  iterationMap: Map<string, IterationDates>
+): IterationCalendar {
+  const iterations = Array.from(iterationMap.entries())
+    .map(([path, dates]) => ({ path, ...dates }))
+    .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+
+  return {
+    projectName,
+    iterations,
+    getDates(iterationPath: string) {
+      for (const variation of normalizeIterationPath(iterationPath, projectName)) {
+        const dates = iterationMap.get(variation);
+        if (dates) return dates;
+      }
+      return undefined;
+    },
+    getIterationsOverlapping(rangeStart: Date, rangeEnd: Date) {
+      return iterations.filter(iteration =>
+        new Date(iteration.startDate) <= rangeEnd && new Date(iteration.finishDate) >= rangeStart
+      );
+    }
+  };
+}
+
+/**
+ * Calendar for a project: from memory, then IndexedDB, then the network.
+ * cacheKey identifies organization and project.
+ */
+export function loadIterationCalendar(
+  cacheKey: string,
+  projectName: string,
+  fetchIterationTree: () => Promise<any>
+): Promise<IterationCalendar> {
+  const existing = calendarsInFlight.get(cacheKey);
+  if (existing && Date.now() - existing.loadedAt < ITERATION_CACHE_TTL_MS) {
+    return existing.promise;
+  }
+
+  const storageKey = `iterations:${cacheKey}`;
+  const promise = (async () => {
+    const cached = await readCache<[string, IterationDates][]>(storageKey, ITERATION_CACHE_TTL_MS);
+    if (cached) {
+      console.log(`Loaded ${cached.value.length} iterations from cache`);
+      return createIterationCalendar(projectName, new Map(cached.value));
+    }
+
+    console.log('Fetching iteration dates...');
+    const iterationMap = extractIterationsFromNode(await fetchIterationTree());
+    console.log(`Loaded ${iterationMap.size} iterations`);
+    await writeCache(storageKey, Array.from(iterationMap.entries()));
+    return createIterationCalendar(projectName, iterationMap);
+  })();
+
+  calendarsInFlight.set(cacheKey, { promise, loadedAt: Date.now() });
+  // A failed load should not stick for the whole TTL
+  promise.catch(() => calendarsInFlight.delete(cacheKey));
+
+  return promise;
+}
@@ -0,0 +1,182 @@
+// jira-client.ts - Jira REST calls behind a swappable transport (HTTP or a recording)
+
+import { requestJson } from './http-request';
+
+export type JiraDeployment = 'cloud' | 'server';
+
+/**
+ * Sends one Jira REST request and returns the parsed JSON body
+ */
+export type JiraTransport = <T = unknown>(
+  method: 'GET' | 'POST',
+  path: string,
+  body?: unknown,
+  signal?: AbortSignal
+) => Promise<T>;
+
+/**
+ * Credentials: Jira Cloud uses an Atlassian account email and API token,
+ * Jira Server / Data Center a personal access token
+ */
+export interface JiraHttpOptions {
+  baseUrl: string;
+  email?: string;
+  apiToken?: string;
+}
+
+export function createHttpJiraTransport({ baseUrl, email, apiToken }: JiraHttpOptions): JiraTransport {
+  const authorization = email
+    ? `Basic ${btoa(`${email}:${apiToken || ''}`)}`
+    : `Bearer ${apiToken || ''}`;
+
+  return (method, path, body, signal) =>
+    requestJson(`${baseUrl.replace(/\/$/, '')}${path}`, {
+      method,
+      headers: {
+        'Authorization': authorization,
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }, { signal });
+}
+
+/**
+ * A recorded response. Requests match on method and path; with `match` set,
+ * the request's JQL must also contain that text.
+ */
+export interface JiraRecordedResponse {
+  method: 'GET' | 'POST';
+  path: string;
+  match?: string;
+  response: unknown;
+}
+
+export interface JiraRecording {
+  responses: JiraRecordedResponse[];
+}
+
+/**
+ * Transport that answers from a recording instead of a Jira site, so the
+ * provider can run offline. The first matching entry wins.
+ */
+export function createRecordedJiraTransport(recording: JiraRecording): JiraTransport {
+  return async <T,>(method: 'GET' | 'POST', path: string, body?: unknown) => {
+    const jql: string = (body as { jql?: string } | undefined)?.jql || '';
+    const entry = recording.responses.find(candidate =>
+      candidate.method === method &&
+      candidate.path === path &&
+      (!candidate.match || jql.includes(candidate.match))
+    );
+
+    if (!entry) {
+      throw new Error(`No recorded Jira response for ${method} ${path} ${jql}`.trim());
+    }
+    // Copy, so callers can't change the recording
+    return JSON.parse(JSON.stringify(entry.response)) as T;
+  };
+}
+
+/**
+ * A fix version (release) of a project
+ */
+export interface JiraVersion {
+  id: string;
+  name: string;
+  startDate?: string;
+  releaseDate?: string;
+}
+
+/**
+ * An issue with the fields the timeline requests. Custom fields (sprint,
+ * parent links) are read by their configured id.
+ */
+export interface JiraIssue {
+  key: string;
+  fields: {
+    summary: string;
+    issuetype: { name: string };
+    status?: { name: string; statusCategory?: { key: string } };
+    project: { key: string; name: string };
+    components?: { name: string }[];
+    labels?: string[];
+    assignee?: { displayName: string } | null;
+    parent?: { key: string };
+    fixVersions?: JiraVersion[];
+    resolutiondate?: string | null;
+    [field: string]: unknown;
+  };
+}
+
+/**
+ * One page of search results. Cloud sets isLast/nextPageToken, Server total.
+ */
+export interface JiraSearchPage {
+  issues?: JiraIssue[];
+  isLast?: boolean;
+  nextPageToken?: string;
+  total?: number;
+}
+
+const SEARCH_PAGE_SIZE = 100;
+
+/**
+ * Every issue matching the JQL, following pagination. Cloud pages with
+ * nextPageToken (/rest/api/3/search/jql), Server with startAt (/rest/api/2/search).
+ */
+export async function searchJiraIssues(
+  transport: JiraTransport,
+  deployment: JiraDeployment,
+  jql: string,
+  fields: string[],
+  signal?: AbortSignal
+): Promise<JiraIssue[]> {
+  const issues: JiraIssue[] = [];
+
+  if (deployment === 'cloud') {
+    let nextPageToken: string | undefined;
+    do {
+      const page = await transport<JiraSearchPage>('POST', '/rest/api/3/search/jql', {
+        jql,
+        fields,
+        maxResults: SEARCH_PAGE_SIZE,
+        ...(nextPageToken ? { nextPageToken } : {}),
+      }, signal);
+      issues.push(...(page.issues || []));
+      nextPageToken = page.isLast === false ? page.nextPageToken : undefined;
+    } while (nextPageToken);
+    return issues;
+  }
+
+  let startAt = 0;
+  for (;;) {
+    const page = await transport<JiraSearchPage>('POST', '/rest/api/2/search', {
+      jql,
+      fields,
+      startAt,
+      maxResults: SEARCH_PAGE_SIZE,
+    }, signal);
+    const pageIssues = page.issues || [];
+    issues.push(...pageIssues);
+    startAt += pageIssues.length;
+    if (pageIssues.length === 0 || startAt >= (page.total ?? 0)) return issues;
+  }
+}
+
+/**
+ * Versions (releases) of a project, with start and release dates
+ */
+export async function getJiraProjectVersions(
+  transport: JiraTransport,
+  projectKey: string,
+  signal?: AbortSignal
+): Promise<JiraVersion[]> {
+  return transport<JiraVersion[]>('GET', `/rest/api/2/project/${encodeURIComponent(projectKey)}/versions`, undefined, signal);
+}
+
+/**
+ * Quote a value for JQL, e.g. an issue type or component name
+ */
+export function jqlString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
@@ -0,0 +1,444 @@
+// jira-data-source.ts - Jira Cloud / Server as a timeline data source
+
+import type { ErrorGuidance, TimelineDataSource, TimelineFetchRequest } from '../types/dataSource.types';
+import type { GenericWorkItem, TimelineData, UnscheduledWorkItem } from '../utils/dataAdapter';
+import { DateRange, HierarchyLevel, parseHierarchy, spanOf, toIsoDate } from '../utils/hierarchyDates';
+import { toLaneId } from '../utils/valueStreamGrouping';
+import {
+  JiraDeployment,
+  JiraIssue,
+  JiraTransport,
+  createHttpJiraTransport,
+  getJiraProjectVersions,
+  jqlString,
+  searchJiraIssues,
+} from './jira-client';
+import type { RequestErrorKind } from './http-request';
+
+export const JIRA_DATA_SOURCE_ID = 'jira';
+
+export type JiraLevel = HierarchyLevel;
+
+export type JiraDateSource = 'sprints' | 'fixVersions';
+export type JiraGrouping = 'project' | 'component';
+
+export interface JiraDataSourceConfig {
+  deployment: JiraDeployment;
+  // Site URL for links to issues (the API may go through a proxy)
+  browseUrl: string;
+  // Which issues belong on the timeline, e.g. "project in (PAY, CHK)"
+  scopeJql: string;
+  // Issue types per level, top first. The timeline's Epic root is the first
+  // level, its Feature root the second.
+  hierarchy: JiraLevel[];
+  // Fields holding the parent key besides `parent`, e.g. Epic Link or Parent Link on Server
+  parentFields: string[];
+  sprintField: string;
+  // Tried first; the other one and then the children's span are fallbacks
+  dateSource: JiraDateSource;
+  groupBy: JiraGrouping;
+}
+
+const DEFAULT_HIERARCHY = 'Initiative>Epic>Story,Task,Bug';
+// Jira Cloud's Sprint field
+const DEFAULT_SPRINT_FIELD = 'customfield_10020';
+
+// Status categories onto the state categories the timeline uses for progress
+const STATUS_CATEGORY_MAP: Record<string, string> = {
+  new: 'Proposed',
+  indeterminate: 'InProgress',
+  done: 'Completed',
+};
+
+const ERROR_GUIDANCE: Partial<Record<RequestErrorKind, ErrorGuidance>> = {
+  auth: {
+    title: 'Sign-in Required',
+    action: 'Jira rejected the credentials. On Jira Cloud, check REACT_APP_JIRA_EMAIL and create a new API token for REACT_APP_JIRA_API_TOKEN. On Jira Server / Data Center, create a new personal access token and leave REACT_APP_JIRA_EMAIL empty.',
+  },
+  permission: {
+    title: 'Access Denied',
+    action: 'The Jira account cannot browse these issues. Ask a Jira administrator for Browse Projects permission on the projects in REACT_APP_JIRA_JQL.',
+  },
+  notFound: {
+    title: 'Not Found',
+    action: 'Jira could not find the site or a project. Check REACT_APP_JIRA_BASE_URL and REACT_APP_JIRA_DEPLOYMENT, and the project keys in REACT_APP_JIRA_JQL.',
+  },
+  throttled: {
+    title: 'Too Many Requests',
+    action: 'Jira is rate limiting requests from this account. Wait a minute, then reload the page.',
+  },
+  network: {
+    title: 'Cannot Reach Jira',
+    action: 'Check your network connection or VPN, and REACT_APP_JIRA_BASE_URL.',
+  },
+  server: {
+    title: 'Jira Error',
+    action: 'Jira could not complete the request. Check REACT_APP_JIRA_JQL and REACT_APP_JIRA_HIERARCHY, or try again in a few minutes.',
+  },
+};
+
+// Keys per JQL "in (...)" clause, keeps the query well below URL/JQL limits
+const PARENT_KEYS_PER_QUERY = 50;
+
+/**
+ * Connection and mapping from REACT_APP_JIRA_* settings in .env
+ */
+export function getJiraConfigFromEnv(): JiraDataSourceConfig & { apiUrl: string; email?: string; apiToken?: string } {
+  const apiUrl = process.env.REACT_APP_JIRA_BASE_URL?.trim();
+  const scopeJql = process.env.REACT_APP_JIRA_JQL?.trim();
+  if (!apiUrl || !scopeJql) {
+    throw new Error(
+      'Missing Jira config. Set REACT_APP_JIRA_BASE_URL and REACT_APP_JIRA_JQL (e.g. "project in (PAY, CHK)") in .env'
+    );
+  }
+
+  return {
+    apiUrl,
+    email: process.env.REACT_APP_JIRA_EMAIL?.trim() || undefined,
+    apiToken: process.env.REACT_APP_JIRA_API_TOKEN?.trim(),
+    deployment: process.env.REACT_APP_JIRA_DEPLOYMENT === 'server' ? 'server' : 'cloud',
+    browseUrl: process.env.REACT_APP_JIRA_BROWSE_URL?.trim() || apiUrl,
+    scopeJql,
+    hierarchy: parseHierarchy(process.env.REACT_APP_JIRA_HIERARCHY || DEFAULT_HIERARCHY),
+    parentFields: (process.env.REACT_APP_JIRA_PARENT_FIELDS || '')
+      .split(',')
+      .map(field => field.trim())
+      .filter(Boolean),
+    sprintField: process.env.REACT_APP_JIRA_SPRINT_FIELD?.trim() || DEFAULT_SPRINT_FIELD,
+    dateSource: process.env.REACT_APP_JIRA_DATES === 'fixVersions' ? 'fixVersions' : 'sprints',
+    groupBy: process.env.REACT_APP_JIRA_GROUP_BY === 'component' ? 'component' : 'project',
+  };
+}
+
+interface JiraSprint {
+  name: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+/**
+ * Sprint values come as objects (Cloud, recent Server) or as the legacy
+ * "com.atlassian.greenhopper...Sprint@1a2b[id=1,name=Sprint 1,startDate=...,endDate=...]" strings
+ */
+function parseSprint(value: unknown): JiraSprint | null {
+  if (!value) return null;
+  if (typeof value === 'object') {
+    const { name, startDate, endDate } = value as JiraSprint;
+    return { name, startDate, endDate };
+  }
+
+  const attributes: Record<string, string> = {};
+  const body = String(value).match(/\[(.*)\]$/)?.[1] || '';
+  body.split(',').forEach(pair => {
+    const [key, ...rest] = pair.split('=');
+    if (key) attributes[key.trim()] = rest.join('=');
+  });
+  if (!attributes.name) return null;
+
+  const date = (text?: string) => (text && text !== '<null>' ? text : undefined);
+  return { name: attributes.name, startDate: date(attributes.startDate), endDate: date(attributes.endDate) };
+}
+
+/**
+ * An issue with its children, as loaded from the search results
+ */
+interface IssueNode {
+  issue: JiraIssue;
+  parentKey?: string;
+  children: IssueNode[];
+}
+
+export function createJiraDataSource(
+  config: JiraDataSourceConfig,
+  transport: JiraTransport
+): TimelineDataSource {
+  const fields = [
+    'summary',
+    'issuetype',
+    'status',
+    'project',
+    'components',
+    'labels',
+    'assignee',
+    'parent',
+    'fixVersions',
+    'resolutiondate',
+    config.sprintField,
+    ...config.parentFields,
+  ];
+
+  // Release dates by version id, per project key
+  const versionCache = new Map<string, Promise<Map<string, DateRange>>>();
+
+  const getVersionDates = (projectKey: string, signal?: AbortSignal) => {
+    if (!versionCache.has(projectKey)) {
+      const promise = getJiraProjectVersions(transport, projectKey, signal).then(versions => {
+        const dates = new Map<string, DateRange>();
+        versions.forEach(version => {
+          if (version.startDate && version.releaseDate) {
+            dates.set(String(version.id), { start: toIsoDate(version.startDate), end: toIsoDate(version.releaseDate) });
+          }
+        });
+        return dates;
+      });
+      versionCache.set(projectKey, promise);
+      promise.catch(() => versionCache.delete(projectKey));
+    }
+    return versionCache.get(projectKey)!;
+  };
+
+  const getParentKey = (issue: JiraIssue): string | undefined => {
+    if (issue.fields.parent?.key) return issue.fields.parent.key;
+    for (const field of config.parentFields) {
+      const value = issue.fields[field];
+      if (typeof value === 'string' && value) return value;
+      const key = (value as { key?: string } | null | undefined)?.key;
+      if (key) return key;
+    }
+    return undefined;
+  };
+
+  // JQL for "child of any of these keys", through parent and every parent field
+  const childOfCondition = (keys: string[]) => {
+    const list = keys.join(', ');
+    const conditions = [`parent in (${list})`].concat(
+      config.parentFields.map(field => `cf[${field.replace('customfield_', '')}] in (${list})`)
+    );
+    return conditions.length > 1 ? `(${conditions.join(' OR ')})` : `(${conditions[0]})`;
+  };
+
+  const noParentCondition = () =>
+    ['parent is EMPTY']
+      .concat(config.parentFields.map(field => `cf[${field.replace('customfield_', '')}] is EMPTY`))
+      .join(' AND ');
+
+  const typesCondition = (level: JiraLevel) =>
+    `issuetype in (${level.issueTypes.map(jqlString).join(', ')})`;
+
+  const search = (jql: string, signal?: AbortSignal) =>
+    searchJiraIssues(transport, config.deployment, `(${config.scopeJql}) AND ${jql}`, fields, signal);
+
+  /**
+   * Load the levels below the given issues, one search per level (and key chunk)
+   */
+  const loadDescendants = async (
+    topIssues: JiraIssue[],
+    levelIndex: number,
+    issues: Map<string, JiraIssue>,
+    signal?: AbortSignal
+  ) => {
+    let parentKeys = topIssues.map(issue => issue.key);
+
+    for (const level of config.hierarchy.slice(levelIndex + 1)) {
+      if (parentKeys.length === 0) return;
+      const children: JiraIssue[] = [];
+      for (let i = 0; i < parentKeys.length; i += PARENT_KEYS_PER_QUERY) {
+        const chunk = parentKeys.slice(i, i + PARENT_KEYS_PER_QUERY);
+        children.push(...await search(`${typesCondition(level)} AND ${childOfCondition(chunk)}`, signal));
+      }
+      children.forEach(issue => issues.set(issue.key, issue));
+      parentKeys = children.map(issue => issue.key);
+    }
+  };
+
+  const getOwnDates = async (
+    issue: JiraIssue,
+    source: JiraDateSource,
+    signal?: AbortSignal
+  ): Promise<DateRange | null> => {
+    if (source === 'sprints') {
+      const sprints = ([] as unknown[]).concat(issue.fields[config.sprintField] || [])
+        .map(parseSprint)
+        .filter((sprint): sprint is Required<JiraSprint> =>
+          !!sprint?.startDate && !!sprint?.endDate
+        );
+      return spanOf(sprints.map(sprint => ({ start: toIsoDate(sprint.startDate), end: toIsoDate(sprint.endDate) })));
+    }
+
+    const versions = issue.fields.fixVersions || [];
+    if (versions.length === 0) return null;
+    const versionDates = await getVersionDates(issue.fields.project.key, signal);
+    return spanOf(
+      versions
+        .map(version => versionDates.get(String(version.id)))
+        .filter((range): range is DateRange => !!range)
+    );
+  };
+
+  const getIterationLabel = (issue: JiraIssue): string | undefined => {
+    const names = config.dateSource === 'sprints'
+      ? ([] as unknown[]).concat(issue.fields[config.sprintField] || []).map(parseSprint).map(sprint => sprint?.name)
+      : (issue.fields.fixVersions || []).map(version => version.name);
+    const label = names.filter(Boolean).join(', ');
+    return label || undefined;
+  };
+
+  const fetchTimeline = async (request: TimelineFetchRequest): Promise<TimelineData> => {
+    const { rootWorkItemType, startDate, endDate, signal, onProgress } = request;
+    const rootIndex = rootWorkItemType === 'Feature' ? 1 : 0;
+    const rootLevel = config.hierarchy[rootIndex];
+    if (!rootLevel) {
+      throw new Error(
+        `The Jira hierarchy has no level ${rootIndex + 1} for ${rootWorkItemType} roots. Check REACT_APP_JIRA_HIERARCHY.`
+      );
+    }
+    const childLevel = config.hierarchy[rootIndex + 1];
+
+    console.log(`=== Starting Jira Fetch (Root: ${rootLevel.name}) ===`);
+    const progress = { phase: 'Loading Jira issues', loaded: 0, total: 0, failed: 0 };
+    onProgress?.({ ...progress });
+
+    const issues = new Map<string, JiraIssue>();
+    // Done items stay when they were finished inside the window
+    const openOrRecent = `(statusCategory != Done OR resolutiondate >= "${toIsoDate(startDate)}")`;
+
+    const roots = await search(`${typesCondition(rootLevel)} AND ${openOrRecent}`, signal);
+    roots.forEach(issue => issues.set(issue.key, issue));
+    await loadDescendants(roots, rootIndex, issues, signal);
+
+    // Items of the level below without any parent go to the Unparented row
+    let orphans: JiraIssue[] = [];
+    if (childLevel) {
+      orphans = await search(`${typesCondition(childLevel)} AND ${noParentCondition()} AND ${openOrRecent}`, signal);
+      orphans.forEach(issue => issues.set(issue.key, issue));
+      await loadDescendants(orphans, rootIndex + 1, issues, signal);
+    }
+
+    progress.loaded = progress.total = issues.size;
+    onProgress?.({ ...progress });
+    console.log(`Loaded ${issues.size} Jira issues`);
+
+    // Tree from parent keys within the loaded issues
+    const nodes = new Map<string, IssueNode>();
+    issues.forEach((issue, key) => nodes.set(key, { issue, parentKey: getParentKey(issue), children: [] }));
+    nodes.forEach(node => {
+      const parent = node.parentKey ? nodes.get(node.parentKey) : undefined;
+      if (parent) parent.children.push(node);
+    });
+
+    const levelOf = (issue: JiraIssue) =>
+      config.hierarchy.findIndex(level => level.issueTypes.includes(issue.fields.issuetype?.name));
+
+    const convert = async (
+      node: IssueNode,
+      unscheduled: UnscheduledWorkItem[],
+      parentKey?: string
+    ): Promise<GenericWorkItem | null> => {
+      const { issue } = node;
+      const children: GenericWorkItem[] = [];
+      for (const child of node.children) {
+        const converted = await convert(child, unscheduled, issue.key);
+        if (converted) children.push(converted);
+      }
+
+      const fallback: JiraDateSource = config.dateSource === 'sprints' ? 'fixVersions' : 'sprints';
+      let dates = await getOwnDates(issue, config.dateSource, signal);
+      let dateSource: string = config.dateSource;
+      if (!dates) {
+        dates = await getOwnDates(issue, fallback, signal);
+        dateSource = fallback;
+      }
+      if (!dates) {
+        dates = spanOf(children.map(child => ({ start: child.iterationStart, end: child.iterationEnd })));
+        dateSource = 'childIterations';
+      }
+
+      if (!dates) {
+        unscheduled.push({
+          id: issue.key,
+          title: issue.fields.summary,
+          workItemType: issue.fields.issuetype.name,
+          state: issue.fields.status?.name,
+          iterationPath: getIterationLabel(issue),
+          parentId: parentKey,
+          childCount: node.children.length,
+          reason: 'No sprint or fix version with dates, and no children with dates',
+        });
+        return null;
+      }
+
+      const levelIndex = levelOf(issue);
+      const childLevelOfItem = levelIndex >= 0 ? config.hierarchy[levelIndex + 1] : undefined;
+
+      return {
+        id: issue.key,
+        title: issue.fields.summary,
+        workItemType: issue.fields.issuetype.name,
+        state: issue.fields.status?.name,
+        stateCategory: STATUS_CATEGORY_MAP[issue.fields.status?.statusCategory?.key || ''],
+        iterationStart: dates.start,
+        iterationEnd: dates.end,
+        iterationPath: getIterationLabel(issue),
+        dateSource,
+        assignedTo: issue.fields.assignee?.displayName,
+        tags: issue.fields.labels,
+        url: `${config.browseUrl.replace(/\/$/, '')}/browse/${issue.key}`,
+        backlogLevel: levelIndex >= 0 ? config.hierarchy[levelIndex].name : undefined,
+        childLevel: childLevelOfItem?.name,
+        childCount: childLevelOfItem ? node.children.length : undefined,
+        completedChildCount: childLevelOfItem
+          ? node.children.filter(child => child.issue.fields.status?.statusCategory?.key === 'done').length
+          : undefined,
+        children,
+      };
+    };
+
+    // Lanes by project key or first component name ('' for issues without a component)
+    const lanes = new Map<string, { id: string; name: string; workItems: GenericWorkItem[]; unparented: GenericWorkItem[]; unscheduled: UnscheduledWorkItem[] }>();
+    const getLane = (issue: JiraIssue) => {
+      const component = issue.fields.components?.[0]?.name || '';
+      const [key, name] = config.groupBy === 'component'
+        ? [component, component || 'No component']
+        : [issue.fields.project.key, issue.fields.project.name];
+      if (!lanes.has(key)) {
+        const id = key ? toLaneId(config.groupBy, key) : 'no-component';
+        lanes.set(key, { id, name, workItems: [], unparented: [], unscheduled: [] });
+      }
+      return lanes.get(key)!;
+    };
+
+    // Bars outside the window are left out, like the Azure DevOps root filter
+    const inWindow = (item: GenericWorkItem) =>
+      new Date(item.iterationEnd) >= startDate && new Date(item.iterationStart) <= endDate;
+
+    const addTopLevel = async (issue: JiraIssue, target: 'workItems' | 'unparented') => {
+      const lane = getLane(issue);
+      // Undated children of a bar outside the window are left out with it
+      const unscheduled: UnscheduledWorkItem[] = [];
+      const item = await convert(nodes.get(issue.key)!, unscheduled);
+      if (item && !inWindow(item)) return;
+      if (item) lane[target].push(item);
+      lane.unscheduled.push(...unscheduled);
+    };
+
+    for (const issue of roots) await addTopLevel(issue, 'workItems');
+    for (const issue of orphans) await addTopLevel(issue, 'unparented');
+
+    const valueStreams = Array.from(lanes.values())
+      .filter(lane => lane.workItems.length > 0 || lane.unparented.length > 0 || lane.unscheduled.length > 0);
+
+    console.log(`=== Completed: ${valueStreams.length} value streams from Jira ===`);
+    return { valueStreams };
+  };
+
+  return {
+    id: JIRA_DATA_SOURCE_ID,
+    name: 'Jira',
+    capabilities: {
+      incrementalRefresh: false,
+      scheduling: false,
+    },
+    errorGuidance: ERROR_GUIDANCE,
+    getCacheScope: async () => `${config.browseUrl}:${config.scopeJql}`,
+    fetch: fetchTimeline,
+    refresh: fetchTimeline,
+  };
+}
+
+/**
+ * Jira site configured in .env
+ */
+export function createJiraDataSourceFromEnv(): TimelineDataSource {
+  const { apiUrl, email, apiToken, ...config } = getJiraConfigFromEnv();
+  return createJiraDataSource(config, createHttpJiraTransport({ baseUrl: apiUrl, email, apiToken }));
+}
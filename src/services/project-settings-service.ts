@@ -0,0 +1,64 @@
+// project-settings-service.ts - Project scoped Timeline Settings
+
+import * as SDK from 'azure-devops-extension-sdk';
+import type { IExtensionDataManager, IExtensionDataService } from 'azure-devops-extension-api';
+import { DEFAULT_PROJECT_SETTINGS, ProjectSettings } from '../types/settings.types';
+
+const EXTENSION_DATA_SERVICE_ID = 'ms.vss-features.extension-data-service';
+const SETTINGS_KEY_PREFIX = 'timeline-settings';
+
+async function getDataManager(): Promise<IExtensionDataManager> {
+  await SDK.ready();
+  const accessToken = await SDK.getAccessToken();
+  const dataService = await SDK.getService<IExtensionDataService>(EXTENSION_DATA_SERVICE_ID);
+  return dataService.getExtensionDataManager(SDK.getExtensionContext().id, accessToken);
+}
+
+/**
+ * The data service only knows collection and user scopes,
+ * so project scope is expressed through the key.
+ */
+function getSettingsKey(): string {
+  const project = SDK.getWebContext().project;
+  if (!project) {
+    throw new Error('No project context available for Timeline Settings');
+  }
+  return `${SETTINGS_KEY_PREFIX}-${project.id}`;
+}
+
+/**
+ * Load the project's Timeline Settings, filling gaps with defaults
+ */
+export async function loadProjectSettings(): Promise<ProjectSettings> {
+  const dataManager = await getDataManager();
+  const saved = await dataManager.getValue<Partial<ProjectSettings> | undefined>(getSettingsKey(), {
+    scopeType: 'Default',
+  });
+
+  return {
+    ...DEFAULT_PROJECT_SETTINGS,
+    ...(saved || {}),
+    completedStates: {
+      ...DEFAULT_PROJECT_SETTINGS.completedStates,
+      ...(saved?.completedStates || {}),
+    },
+    borderColors: {
+      ...DEFAULT_PROJECT_SETTINGS.borderColors,
+      ...(saved?.borderColors || {}),
+    },
+  };
+}
+
+/**
+ * Merge and persist changes to the project's Timeline Settings
+ */
+export async function saveProjectSettings(
+  changes: Partial<ProjectSettings>
+): Promise<ProjectSettings> {
+  const current = await loadProjectSettings();
+  const next: ProjectSettings = { ...current, ...changes };
+
+  const dataManager = await getDataManager();
+  await dataManager.setValue(getSettingsKey(), next, { scopeType: 'Default' });
+  return next;
+}
@@ -0,0 +1,86 @@
+// spreadsheet-data-source.ts - A roadmap imported from CSV or Excel as a timeline data source
+
+import type { TimelineDataSource, TimelineFetchRequest } from '../types/dataSource.types';
+import type { GenericWorkItem, TimelineData } from '../utils/dataAdapter';
+
+export const SPREADSHEET_DATA_SOURCE_ID = 'spreadsheet';
+
+const STORAGE_KEY = 'timelineImport';
+
+/**
+ * The last import, kept in the browser until the next one
+ */
+export interface ImportedTimeline {
+  fileName: string;
+  importedAt: string;
+  data: TimelineData;
+}
+
+export function loadImportedTimeline(): ImportedTimeline | null {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return null;
+
+  try {
+    return JSON.parse(saved) as ImportedTimeline;
+  } catch (e) {
+    console.error('Failed to parse imported timeline:', e);
+    return null;
+  }
+}
+
+export function saveImportedTimeline(fileName: string, data: TimelineData): ImportedTimeline {
+  const imported: ImportedTimeline = { fileName, importedAt: new Date().toISOString(), data };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(imported));
+  } catch (e) {
+    console.error('Failed to save imported timeline:', e);
+    throw new Error('The imported roadmap is too large to keep in the browser');
+  }
+  return imported;
+}
+
+export function clearImportedTimeline(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+/**
+ * Shows the imported roadmap; nothing is fetched from a server. The file
+ * is always imported with Epic roots, Feature roots are their children.
+ */
+export function createSpreadsheetDataSource(): TimelineDataSource {
+  const fetchTimeline = async ({ rootWorkItemType, startDate, endDate }: TimelineFetchRequest): Promise<TimelineData> => {
+    const imported = loadImportedTimeline();
+    if (!imported) return { valueStreams: [] };
+
+    // Bars outside the window are left out, like the Azure DevOps root filter
+    const inWindow = (item: GenericWorkItem) =>
+      new Date(item.iterationEnd) >= startDate && new Date(item.iterationStart) <= endDate;
+
+    const valueStreams = imported.data.valueStreams.map(vs => {
+      const roots = rootWorkItemType === 'Feature'
+        ? [...vs.workItems.flatMap(item => item.children || []), ...(vs.unparented || [])]
+        : vs.workItems;
+
+      return {
+        ...vs,
+        workItems: roots.filter(inWindow),
+        unparented: rootWorkItemType === 'Feature' ? [] : (vs.unparented || []).filter(inWindow),
+      };
+    });
+
+    return { valueStreams };
+  };
+
+  return {
+    id: SPREADSHEET_DATA_SOURCE_ID,
+    name: 'Spreadsheet import',
+    capabilities: {
+      incrementalRefresh: false,
+      scheduling: false,
+    },
+    // A new import must not be mixed up with the timeline cached from the last one
+    getCacheScope: async () => loadImportedTimeline()?.importedAt || 'none',
+    fetch: fetchTimeline,
+    refresh: fetchTimeline,
+  };
+}
@@ -0,0 +1,13 @@
+import * as React from 'react';
+import { createRoot } from 'react-dom/client';
+import * as SDK from 'azure-devops-extension-sdk';
+import { ProjectSettingsPage } from '@components/settings/ProjectSettingsPage';
+
+// The settings hub only makes sense inside Azure DevOps, it reads the project from the host
+SDK.init().then(() => {
+  SDK.ready().then(() => {
+    createRoot(document.getElementById('root')!).render(
+      React.createElement(ProjectSettingsPage)
+    );
+  });
+});
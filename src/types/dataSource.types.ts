@@ -0,0 +1,89 @@
+/**
+ * Timeline Data Sources
+ *
+ * A data source loads the timeline from one project management system
+ * (Azure DevOps, ...). The timeline only talks to this interface; which
+ * provider is used comes from configuration (REACT_APP_DATA_SOURCE).
+ */
+
+import type { TimelineData } from '../utils/dataAdapter';
+import type { RequestErrorKind } from '../services/http-request';
+import type { RootWorkItemType } from './settings.types';
+
+/**
+ * Progress of a long running fetch, reported to the loading spinner
+ */
+export interface FetchProgress {
+  phase: string;
+  loaded: number;
+  total: number;
+  failed: number;
+}
+
+export type FetchProgressCallback = (progress: FetchProgress) => void;
+
+export interface TimelineFetchRequest {
+  rootWorkItemType: RootWorkItemType;
+  // Root items overlapping this range are loaded
+  startDate: Date;
+  endDate: Date;
+  onProgress?: FetchProgressCallback;
+  signal?: AbortSignal;
+}
+
+export interface DataSourceCapabilities {
+  // refresh() only loads what changed instead of everything
+  incrementalRefresh: boolean;
+  // Undated items can be assigned an iteration from the Unscheduled panel
+  scheduling: boolean;
+}
+
+/**
+ * An iteration (sprint) work items can be scheduled into
+ */
+export interface IterationOption {
+  path: string;
+  startDate: string;
+  finishDate: string;
+}
+
+/**
+ * Writing iterations back to the source system, for providers with the
+ * scheduling capability
+ */
+export interface SchedulingSupport {
+  // Iterations that have not finished yet, earliest first
+  getIterations(): Promise<IterationOption[]>;
+  // Whether the current user may change the work item's iteration (nothing is saved)
+  canSchedule(workItemId: string, iterationPath: string): Promise<boolean>;
+  schedule(workItemId: string, iterationPath: string): Promise<void>;
+}
+
+/**
+ * Title and next step shown with a failed load
+ */
+export interface ErrorGuidance {
+  title: string;
+  action: string;
+}
+
+export interface TimelineDataSource {
+  // Registry id, e.g. 'azure-devops'
+  id: string;
+  // Shown to users, e.g. in error messages
+  name: string;
+  capabilities: DataSourceCapabilities;
+  // Identifies the connected organization/project so cached data is kept apart
+  getCacheScope(): Promise<string>;
+  fetch(request: TimelineFetchRequest): Promise<TimelineData>;
+  // Latest data for a window loaded before. Without incrementalRefresh this
+  // is the same as fetch.
+  refresh(request: TimelineFetchRequest): Promise<TimelineData>;
+  scheduling?: SchedulingSupport;
+  // What to do about a failed request, in this provider's terms (its
+  // credentials and settings). Kinds left out only show the message.
+  errorGuidance?: Partial<Record<RequestErrorKind, ErrorGuidance>>;
+  // Every dated iteration, releases and PIs included, earliest first. Drives
+  // the iteration based header rows; providers without iterations leave it out.
+  getIterationCalendar?(): Promise<IterationOption[]>;
+}
@@ -0,0 +1,59 @@
+/**
+ * Project-level Timeline Settings
+ *
+ * Configured by project administrators on the Timeline Settings hub and
+ * stored in the extension data service, so every team member shares them.
+ */
+
+export type RootWorkItemType = 'Epic' | 'Feature';
+
+// How root work items are grouped into value stream lanes
+//   areaPath  - area path, cut to valueStreamAreaDepth segments
+//   tagPrefix - the tag starting with valueStreamTagPrefix, e.g. VS:Payments
+//   field     - the value of valueStreamField
+//   team      - the team owning the area path
+//   none      - a single lane
+export type ValueStreamGrouping = 'areaPath' | 'tagPrefix' | 'field' | 'team' | 'none';
+
+// Where a bar's start and end dates come from. The chosen source is tried
+// first; the others are used as fallbacks when it has no dates.
+//   fields          - Start Date / Target Date on the work item
+//   iteration       - the work item's own iteration
+//   childIterations - earliest to latest iteration among its descendants
+export type DateSourceStrategy = 'fields' | 'iteration' | 'childIterations';
+
+export interface ProjectSettings {
+  // Saved Azure Boards query that scopes the timeline (empty = built-in query)
+  queryGuid: string;
+  rootWorkItemType: RootWorkItemType;
+  valueStreamGrouping: ValueStreamGrouping;
+  // Area path segments kept when grouping by area path (0 = full path)
+  valueStreamAreaDepth: number;
+  valueStreamTagPrefix: string;
+  // Field reference name, e.g. Custom.ValueStream
+  valueStreamField: string;
+  dateSource: DateSourceStrategy;
+  // Month the fiscal year starts in (1 = January, calendar quarters). Other
+  // months label quarters by fiscal year, e.g. FY27 Q1.
+  fiscalYearStartMonth: number;
+
+  // Work item type -> extra state names counted as completed, on top of
+  // every state in the Completed category
+  completedStates: { [workItemType: string]: string[] };
+
+  // Default card border colors per type key (epic, feature, story, ...)
+  borderColors: { [typeKey: string]: string };
+}
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  queryGuid: '',
+  rootWorkItemType: 'Epic',
+  valueStreamGrouping: 'areaPath',
+  valueStreamAreaDepth: 0,
+  valueStreamTagPrefix: 'VS:',
+  valueStreamField: '',
+  dateSource: 'fields',
+  fiscalYearStartMonth: 1,
+  completedStates: {},
+  borderColors: {},
+};
@@ -0,0 +1,48 @@
+/**
+ * Timeline Snapshots
+ *
+ * A snapshot is a JSON file with everything needed to show a timeline as
+ * it was captured: the work items, milestones, display settings and the
+ * visible range. Snapshots are shown read-only and need no connection.
+ */
+
+import type { TimelineData } from '../utils/dataAdapter';
+import type { Milestone } from '../components/timeline/MilestoneContext';
+import type { Settings } from '../components/timeline/SettingsContext';
+import type { ViewLevel } from '../components/timeline/TimelineToolbar';
+import type { IterationOption } from './dataSource.types';
+
+export const SNAPSHOT_FORMAT = 'value-stream-timeline-snapshot';
+
+// Bump when the file layout changes; older versions must keep opening.
+// 2 added collapsedLanes, iterations and the fiscal year start.
+export const SNAPSHOT_VERSION = 2;
+
+/**
+ * What was on screen when the snapshot was taken
+ */
+export interface SnapshotView {
+  viewLevel: ViewLevel;
+  // First and last visible day (YYYY-MM-DD, local calendar dates)
+  timelineStart: string;
+  timelineEnd: string;
+  // Fiscal calendar the quarters were labeled with (1 = January)
+  fiscalYearStartMonth: number;
+  zoomLevel: number;
+  expandedItems: { [itemId: string]: boolean };
+  // Parent lanes collapsed in the nested view
+  collapsedLanes: { [laneId: string]: boolean };
+}
+
+export interface TimelineSnapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  // ISO date and time; the Today line is drawn here
+  capturedAt: string;
+  data: TimelineData;
+  milestones: Milestone[];
+  settings: Settings;
+  view: SnapshotView;
+  // Iteration calendar for the PI and sprint rows; empty for version 1 files
+  iterations: IterationOption[];
+}
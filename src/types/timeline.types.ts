@@ -32,8 +32,11 @@ export interface TimelineMonth {
 }
 
 export interface Quarter {
+  // Fiscal year and quarter (calendar ones with a January fiscal year start)
   year: number;
   quarter: number;
+  // "Q3 2025", or "FY27 Q1" with a fiscal calendar
+  label: string;
   months: TimelineMonth[];
 }
 
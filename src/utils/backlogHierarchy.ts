@@ -0,0 +1,63 @@
+// backlogHierarchy.ts - Process-aware backlog levels (Agile, Scrum, CMMI, custom)
+
+/**
+ * One level of the project's backlog hierarchy, e.g. "Epics" or "Backlog items"
+ */
+export interface BacklogLevel {
+  name: string;
+  workItemTypes: string[];
+}
+
+/**
+ * Agile process defaults, used when the backlog configuration cannot be read
+ */
+export const DEFAULT_BACKLOG_LEVELS: BacklogLevel[] = [
+  { name: 'Epics', workItemTypes: ['Epic'] },
+  { name: 'Features', workItemTypes: ['Feature'] },
+  { name: 'Stories', workItemTypes: ['User Story', 'Bug'] },
+  { name: 'Tasks', workItemTypes: ['Task'] },
+];
+
+/**
+ * Convert a Work API backlog configuration into levels ordered top-down:
+ * portfolio backlogs by rank, then the requirement and task backlogs
+ */
+export function buildBacklogLevels(backlogConfiguration: any): BacklogLevel[] {
+  if (!backlogConfiguration) return DEFAULT_BACKLOG_LEVELS;
+
+  const toLevel = (config: any): BacklogLevel => ({
+    name: config.name,
+    workItemTypes: (config.workItemTypes || []).map((type: any) => type.name),
+  });
+
+  const portfolioLevels = [...(backlogConfiguration.portfolioBacklogs || [])]
+    .sort((a: any, b: any) => b.rank - a.rank)
+    .map(toLevel);
+
+  const levels = [
+    ...portfolioLevels,
+    ...(backlogConfiguration.requirementBacklog ? [toLevel(backlogConfiguration.requirementBacklog)] : []),
+    ...(backlogConfiguration.taskBacklog ? [toLevel(backlogConfiguration.taskBacklog)] : []),
+  ].filter(level => level.workItemTypes.length > 0);
+
+  return levels.length > 0 ? levels : DEFAULT_BACKLOG_LEVELS;
+}
+
+/**
+ * Index of the level a work item type belongs to, or -1 when it is not on a backlog
+ */
+export function getBacklogLevelIndex(levels: BacklogLevel[], workItemType: string): number {
+  return levels.findIndex(level => level.workItemTypes.includes(workItemType));
+}
+
+/**
+ * The level directly below the given work item type's level
+ */
+export function getChildBacklogLevel(
+  levels: BacklogLevel[],
+  workItemType: string
+): BacklogLevel | null {
+  const index = getBacklogLevelIndex(levels, workItemType);
+  if (index === -1 || index === levels.length - 1) return null;
+  return levels[index + 1];
+}
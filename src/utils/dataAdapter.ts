@@ -10,9 +10,18 @@ export interface GenericWorkItem {
   iterationStart: string;
   iterationEnd: string;
   iterationPath?: string;
+  // Which source the bar dates came from ('fields', 'iteration', 'childIterations')
+  dateSource?: string;
   assignedTo?: string;
+  // Link to the item in its source system; Azure DevOps links are built from the id
+  url?: string;
   children?: GenericWorkItem[];
   tags?: string[] | string;
+  // Backlog level names from the process configuration (e.g. 'Epics', 'Backlog items')
+  backlogLevel?: string;
+  childLevel?: string;
+  childCount?: number;
+  completedChildCount?: number;
   // Backwards compatibility properties
   featureCount?: number;
   completedFeatureCount?: number;
@@ -21,14 +30,47 @@ export interface GenericWorkItem {
   completedStories?: number;
 }
 
+/**
+ * Work item left off the timeline because no date source had dates for it
+ */
+export interface UnscheduledWorkItem {
+  id: string;
+  title: string;
+  workItemType: string;
+  state?: string;
+  iterationPath?: string;
+  // Set when the item's parent is on the timeline
+  parentId?: string;
+  // Children hidden along with the item
+  childCount: number;
+  reason: string;
+}
+
 export interface ValueStreamData {
   id: string;
   name: string;
+  // Full area path or grouping value, shown as the lane tooltip
+  path?: string;
   workItems: GenericWorkItem[];
+  // Items one level below the root type that have no parent (e.g. Features without an Epic)
+  unparented?: GenericWorkItem[];
+  unscheduled?: UnscheduledWorkItem[];
+}
+
+/**
+ * Where timeline data came from, kept with saved copies such as snapshots
+ */
+export interface TimelineMetadata {
+  sourceId: string;
+  sourceName: string;
+  rootWorkItemType: string;
 }
 
 export interface TimelineData {
   valueStreams: ValueStreamData[];
+  // When the data was loaded (ISO date and time)
+  lastUpdated?: string;
+  metadata?: TimelineMetadata;
 }
 
 /**
@@ -45,7 +87,10 @@ export function transformLegacyData(data: any): TimelineData {
       return {
         id: vs.id,
         name: vs.name,
-        workItems: vs.workItems
+        path: vs.path,
+        workItems: vs.workItems,
+        unparented: vs.unparented,
+        unscheduled: vs.unscheduled
       };
     }
 
@@ -69,6 +114,37 @@ export function transformLegacyData(data: any): TimelineData {
   return { valueStreams };
 }
 
+/**
+ * Merge data fetched for another date window into what is already loaded.
+ * Lanes match by id and items by work item id; the newer copy wins.
+ */
+export function mergeTimelineData(current: TimelineData, incoming: TimelineData): TimelineData {
+  const mergeById = <T extends { id: string }>(existing: T[] = [], added: T[] = []): T[] => {
+    const byId = new Map(existing.map(item => [item.id, item] as [string, T]));
+    added.forEach(item => byId.set(item.id, item));
+    return Array.from(byId.values());
+  };
+
+  const lanes = new Map(current.valueStreams.map(vs => [vs.id, vs] as [string, ValueStreamData]));
+
+  incoming.valueStreams.forEach(vs => {
+    const existing = lanes.get(vs.id);
+    if (!existing) {
+      lanes.set(vs.id, vs);
+      return;
+    }
+
+    lanes.set(vs.id, {
+      ...existing,
+      workItems: mergeById(existing.workItems, vs.workItems),
+      unparented: mergeById(existing.unparented, vs.unparented),
+      unscheduled: mergeById(existing.unscheduled, vs.unscheduled),
+    });
+  });
+
+  return { valueStreams: Array.from(lanes.values()) };
+}
+
 /**
  * Transform old Epic structure to generic WorkItem
  */
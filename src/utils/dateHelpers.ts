@@ -1,38 +1,47 @@
-export const calculateTimelineRange = (quarterOffset: number) => {
-  const now = new Date();
-  const currentYear = now.getFullYear();
-  const currentMonth = now.getMonth();
-  const currentQuarter = Math.floor(currentMonth / 3);
-  
-  const startQuarterOffset = -1 + quarterOffset;
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Fiscal year and quarter of a date. Fiscal years are named after the
+ * calendar year they end in, so with an October start (fiscalYearStartMonth
+ * 10) October 2026 is FY27 Q1. A January start gives calendar quarters.
+ */
+export const getFiscalQuarter = (date: Date, fiscalYearStartMonth: number = 1) => {
+  const startMonth = fiscalYearStartMonth - 1;
+  const monthsIntoYear = (date.getMonth() - startMonth + 12) % 12;
+  const startYear = date.getMonth() >= startMonth ? date.getFullYear() : date.getFullYear() - 1;
+
+  return {
+    year: startMonth === 0 ? startYear : startYear + 1,
+    quarter: Math.floor(monthsIntoYear / 3) + 1,
+    quarterStart: new Date(date.getFullYear(), date.getMonth() - (monthsIntoYear % 3), 1),
+  };
+};
+
+/**
+ * "Q3 2025" for calendar quarters, "FY27 Q1" for fiscal ones
+ */
+export const formatQuarterLabel = (year: number, quarter: number, fiscalYearStartMonth: number = 1) =>
+  fiscalYearStartMonth === 1 ? `Q${quarter} ${year}` : `FY${String(year).slice(-2)} Q${quarter}`;
+
+// Quarters are keyed by their first month ("2025-07"), the same whatever the fiscal calendar
+const quarterKey = (quarterStart: Date) => `${quarterStart.getFullYear()}-${pad(quarterStart.getMonth() + 1)}`;
+
+/**
+ * The previous quarter, the current one and the two after it, moved by
+ * quarterOffset quarters
+ */
+export const calculateTimelineRange = (
+  quarterOffset: number,
+  fiscalYearStartMonth: number = 1,
+  today: Date = new Date()
+) => {
+  const { quarterStart } = getFiscalQuarter(today, fiscalYearStartMonth);
+  const startMonth = quarterStart.getMonth() + (quarterOffset - 1) * 3;
   const totalQuarters = 4;
-  
-  let startQuarter = currentQuarter + startQuarterOffset;
-  let startYear = currentYear;
-  
-  while (startQuarter < 0) {
-    startQuarter += 4;
-    startYear -= 1;
-  }
-  while (startQuarter >= 4) {
-    startQuarter -= 4;
-    startYear += 1;
-  }
-  
-  const startMonth = startQuarter * 3;
-  const timelineStart = new Date(startYear, startMonth, 1);
-  
-  let endQuarter = startQuarter + totalQuarters - 1;
-  let endYear = startYear;
-  
-  while (endQuarter >= 4) {
-    endQuarter -= 4;
-    endYear += 1;
-  }
-  
-  const endMonth = (endQuarter + 1) * 3;
-  const timelineEnd = new Date(endYear, endMonth, 0);
-  
+
+  const timelineStart = new Date(quarterStart.getFullYear(), startMonth, 1);
+  const timelineEnd = new Date(quarterStart.getFullYear(), startMonth + totalQuarters * 3, 0);
+
   return { timelineStart, timelineEnd };
 };
 
@@ -59,11 +68,12 @@ export const generateTimeline = (timelineStart: Date, timelineEnd: Date) => {
   return timeline;
 };
 
-export const groupTimelineByQuarters = (timeline: any[]) => {
+export const groupTimelineByQuarters = (timeline: any[], fiscalYearStartMonth: number = 1) => {
   return timeline.reduce((acc, item) => {
-    const key = `${item.year}-Q${item.quarter}`;
+    const { year, quarter, quarterStart } = getFiscalQuarter(item.date, fiscalYearStartMonth);
+    const key = quarterKey(quarterStart);
     if (!acc[key]) {
-      acc[key] = { year: item.year, quarter: item.quarter, months: [] };
+      acc[key] = { year, quarter, label: formatQuarterLabel(year, quarter, fiscalYearStartMonth), months: [] };
     }
     acc[key].months.push(item);
     return acc;
@@ -74,4 +84,24 @@ export const isItemVisible = (start: string, end: string, timelineStart: Date, t
   const startDate = new Date(start);
   const endDate = new Date(end);
   return !(startDate > timelineEnd || endDate < timelineStart);
-};
\ No newline at end of file
+};
+
+/**
+ * Quarters covered by a range, keyed like groupTimelineByQuarters ("2025-07")
+ */
+export const getQuartersInRange = (rangeStart: Date, rangeEnd: Date, fiscalYearStartMonth: number = 1) => {
+  const quarters: { key: string; start: Date; end: Date }[] = [];
+  const current = getFiscalQuarter(rangeStart, fiscalYearStartMonth).quarterStart;
+
+  while (current <= rangeEnd) {
+    quarters.push({
+      key: quarterKey(current),
+      start: new Date(current),
+      end: new Date(current.getFullYear(), current.getMonth() + 3, 0, 23, 59, 59, 999)
+    });
+
+    current.setMonth(current.getMonth() + 3);
+  }
+
+  return quarters;
+};
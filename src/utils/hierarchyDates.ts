@@ -0,0 +1,38 @@
+// hierarchyDates.ts - Issue type levels and date spans for the Jira and GitHub data sources
+
+/**
+ * One level of the configured hierarchy, e.g. Epics for the types Epic and Initiative
+ */
+export interface HierarchyLevel {
+  name: string;
+  issueTypes: string[];
+}
+
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+/**
+ * "Initiative>Epic>Story,Task,Bug" -> levels named after their first type
+ */
+export function parseHierarchy(value: string): HierarchyLevel[] {
+  return value
+    .split('>')
+    .map(level => level.split(',').map(type => type.trim()).filter(Boolean))
+    .filter(types => types.length > 0)
+    .map(issueTypes => ({ name: `${issueTypes[0]}s`, issueTypes }));
+}
+
+export const toIsoDate = (value: string | Date) => new Date(value).toISOString().split('T')[0];
+
+/**
+ * Earliest start and latest end, null for no ranges
+ */
+export function spanOf(ranges: DateRange[]): DateRange | null {
+  if (ranges.length === 0) return null;
+  return ranges.reduce((span, range) => ({
+    start: range.start < span.start ? range.start : span.start,
+    end: range.end > span.end ? range.end : span.end,
+  }));
+}
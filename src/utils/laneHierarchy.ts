@@ -0,0 +1,95 @@
+// laneHierarchy.ts - Nest value stream lanes along their paths (portfolio → value stream → ART → team)
+
+import type { ValueStreamData } from './dataAdapter';
+import { toLaneId } from './valueStreamGrouping';
+
+const PATH_SEPARATOR = '\\';
+
+/**
+ * A lane in the nested view. Parent lanes come from shared path prefixes
+ * (e.g. Portfolio\Payments for Portfolio\Payments\Checkout) and may hold
+ * work items themselves when a lane has exactly their path.
+ */
+export interface LaneNode {
+  id: string;
+  name: string;
+  path: string;
+  lane?: ValueStreamData;
+  children: LaneNode[];
+}
+
+const groupId = (path: string) => toLaneId('group', path);
+
+const lastSegment = (path: string) => path.split(PATH_SEPARATOR).pop() || path;
+
+const leaf = (lane: ValueStreamData): LaneNode => ({
+  id: lane.id,
+  name: lane.name,
+  path: lane.path || lane.name,
+  lane,
+  children: [],
+});
+
+/**
+ * A parent lane with nothing of its own and a single child adds a level
+ * without grouping anything, so the child takes its place
+ */
+function collapseChains(nodes: LaneNode[]): LaneNode[] {
+  return nodes.map(node => {
+    const children = collapseChains(node.children);
+    if (!node.lane && children.length === 1) return children[0];
+    return { ...node, children };
+  });
+}
+
+/**
+ * Lanes as a tree, in the order they come in. Lanes without a path (or
+ * with a single segment) stay at the top level.
+ */
+export function buildLaneTree(valueStreams: ValueStreamData[]): LaneNode[] {
+  const roots: LaneNode[] = [];
+  const byPath = new Map<string, LaneNode>();
+
+  valueStreams.forEach(lane => {
+    const segments = lane.path ? lane.path.split(PATH_SEPARATOR) : [];
+    if (segments.length < 2) {
+      roots.push(leaf(lane));
+      return;
+    }
+
+    // Parent lanes for every prefix, created on first use
+    let siblings = roots;
+    for (let count = 1; count < segments.length; count++) {
+      const path = segments.slice(0, count).join(PATH_SEPARATOR);
+      let parent = byPath.get(path);
+      if (!parent) {
+        parent = { id: groupId(path), name: lastSegment(path), path, children: [] };
+        byPath.set(path, parent);
+        siblings.push(parent);
+      }
+      siblings = parent.children;
+    }
+
+    // A parent lane created for this path earlier takes the lane over;
+    // two lanes with the same path (e.g. teams sharing an area) sit side by side
+    const existing = byPath.get(lane.path!);
+    if (existing && !existing.lane) {
+      existing.id = lane.id;
+      existing.name = lane.name;
+      existing.lane = lane;
+    } else {
+      const node = leaf(lane);
+      if (!existing) byPath.set(lane.path!, node);
+      siblings.push(node);
+    }
+  });
+
+  return collapseChains(roots);
+}
+
+/**
+ * Every lane in and under a node
+ */
+export function getLanesInNode(node: LaneNode): ValueStreamData[] {
+  return [...(node.lane ? [node.lane] : []), ...node.children.flatMap(getLanesInNode)];
+}
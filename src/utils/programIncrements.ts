@@ -0,0 +1,103 @@
+// programIncrements.ts - SAFe Program Increments from the iteration tree
+
+import type { IterationOption } from '../types/dataSource.types';
+import { getSprints, iterationName, toLocalDay } from './sprints';
+
+const PATH_SEPARATOR = '\\';
+
+// "IP", "I&P", "IP Sprint", "Innovation and Planning", ...
+const IP_ITERATION_PATTERN = /(^|[^a-z])(ip|i&p)([^a-z]|$)|innovation/i;
+
+/**
+ * A Program Increment: an iteration whose children are sprints
+ */
+export interface ProgramIncrement {
+  path: string;
+  name: string;
+  // YYYY-MM-DD
+  startDate: string;
+  finishDate: string;
+  iterations: IterationOption[];
+  // The Innovation & Planning iteration, when one is named like it
+  ipIteration?: IterationOption;
+}
+
+const lastSegment = (path: string) => path.split(PATH_SEPARATOR).pop() || path;
+const parentPath = (path: string) => path.split(PATH_SEPARATOR).slice(0, -1).join(PATH_SEPARATOR);
+
+export function isIpIteration(iteration: IterationOption): boolean {
+  return IP_ITERATION_PATTERN.test(iterationName(iteration));
+}
+
+/**
+ * Parents of two or more sprints (dated iterations without dated children),
+ * e.g. Project\2026\PI 1 over Project\2026\PI 1\Sprint 1..5. Iterations
+ * right under the project root are not PIs. A PI without dates of its own
+ * spans its sprints.
+ */
+export function buildProgramIncrements(iterations: IterationOption[]): ProgramIncrement[] {
+  const byPath = new Map(iterations.map(iteration => [iteration.path, iteration]));
+
+  const sprintsByParent = new Map<string, IterationOption[]>();
+  getSprints(iterations).forEach(sprint => {
+    const parent = parentPath(sprint.path);
+    if (!parent.includes(PATH_SEPARATOR)) return;
+    sprintsByParent.set(parent, [...(sprintsByParent.get(parent) || []), sprint]);
+  });
+
+  const increments: ProgramIncrement[] = [];
+  sprintsByParent.forEach((sprints, path) => {
+    if (sprints.length < 2) return;
+
+    const own = byPath.get(path);
+    increments.push({
+      path,
+      name: lastSegment(path),
+      startDate: (own?.startDate || sprints[0].startDate).slice(0, 10),
+      finishDate: (own?.finishDate || sprints.reduce((max, sprint) => (sprint.finishDate > max ? sprint.finishDate : max), sprints[0].finishDate)).slice(0, 10),
+      iterations: sprints,
+      ipIteration: sprints.find(isIpIteration),
+    });
+  });
+
+  return increments.sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
+
+// Index of the PI running today, or the last one when all are over
+function getCurrentPiIndex(increments: ProgramIncrement[], today: Date): number {
+  const current = increments.findIndex(pi => toLocalDay(pi.finishDate) >= today);
+  return current >= 0 ? current : increments.length - 1;
+}
+
+/**
+ * Keeps PI navigation within the PIs there are, so stepping back after
+ * running past the last one moves right away
+ */
+export function clampPiOffset(increments: ProgramIncrement[], piOffset: number, today: Date = new Date()): number {
+  if (increments.length === 0) return 0;
+  const current = getCurrentPiIndex(increments, today);
+  return Math.min(Math.max(piOffset, 1 - current), increments.length - current);
+}
+
+/**
+ * Visible range when stepping by PI: the PI before the current one and the
+ * three after it, widened to whole months so the month grid lines up
+ */
+export function calculatePiRange(
+  increments: ProgramIncrement[],
+  piOffset: number,
+  today: Date = new Date()
+): { timelineStart: Date; timelineEnd: Date } | null {
+  if (increments.length === 0) return null;
+
+  const offset = clampPiOffset(increments, piOffset, today);
+  const first = Math.min(getCurrentPiIndex(increments, today) - 1 + offset, increments.length - 1);
+  const last = Math.min(first + 3, increments.length - 1);
+
+  const start = toLocalDay(increments[first].startDate);
+  const end = toLocalDay(increments[last].finishDate);
+  return {
+    timelineStart: new Date(start.getFullYear(), start.getMonth(), 1),
+    timelineEnd: new Date(end.getFullYear(), end.getMonth() + 1, 0),
+  };
+}
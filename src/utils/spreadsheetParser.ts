@@ -0,0 +1,217 @@
+// spreadsheetParser.ts - Read CSV and XLSX files into rows of cell text
+
+/**
+ * A sheet as text cells. The first non-empty row holds the headers.
+ */
+export interface SpreadsheetTable {
+  headers: string[];
+  rows: SpreadsheetRow[];
+}
+
+export interface SpreadsheetRow {
+  // Row number as shown in the spreadsheet (the header row is 1)
+  rowNumber: number;
+  cells: string[];
+}
+
+function toTable(rows: string[][]): SpreadsheetTable {
+  const numbered = rows
+    .map((cells, index) => ({ rowNumber: index + 1, cells: cells.map(cell => cell.trim()) }))
+    .filter(row => row.cells.some(Boolean));
+
+  if (numbered.length === 0) {
+    throw new Error('The file has no rows');
+  }
+
+  const [header, ...data] = numbered;
+  return { headers: header.cells, rows: data };
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may hold delimiters, quotes ("") and line
+ * breaks. Comma, semicolon (Excel in many European locales) and tab
+ * delimiters are detected from the first line.
+ */
+export function parseCsv(text: string): SpreadsheetTable {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  const delimiter = [',', ';', '\t']
+    .map(candidate => ({ candidate, count: firstLine.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return toTable(rows);
+}
+
+/**
+ * Files of a ZIP archive by name, from its central directory
+ */
+async function readZipEntries(buffer: ArrayBuffer): Promise<Map<string, () => Promise<string>>> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // End of central directory record, near the end (after an optional comment)
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Not an Excel (.xlsx) file');
+  }
+
+  const entries = new Map<string, () => Promise<string>>();
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  for (let i = 0; i < count; i++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(name, async () => {
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = bytes.slice(dataStart, dataStart + compressedSize);
+      if (method === 0) return decoder.decode(data);
+      if (method !== 8) throw new Error(`Unsupported compression in ${name}`);
+
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Response(stream).text();
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+// "AB12" -> 27
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, '');
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * The first worksheet of an XLSX workbook. Numbers (including dates, which
+ * Excel stores as serial day numbers) come back as their stored text.
+ */
+export async function parseXlsx(buffer: ArrayBuffer): Promise<SpreadsheetTable> {
+  const entries = await readZipEntries(buffer);
+  const parser = new DOMParser();
+  const readXml = async (name: string) => {
+    const read = entries.get(name);
+    return read ? parser.parseFromString(await read(), 'application/xml') : null;
+  };
+
+  const workbook = await readXml('xl/workbook.xml');
+  const relations = await readXml('xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook?.getElementsByTagName('sheet')[0];
+  if (!workbook || !firstSheet) {
+    throw new Error('The workbook has no worksheets');
+  }
+
+  const relationId = firstSheet.getAttribute('r:id');
+  const target = Array.from(relations?.getElementsByTagName('Relationship') || [])
+    .find(relation => relation.getAttribute('Id') === relationId)
+    ?.getAttribute('Target') || 'worksheets/sheet1.xml';
+  const sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+
+  const sharedStringsXml = await readXml('xl/sharedStrings.xml');
+  const sharedStrings = Array.from(sharedStringsXml?.getElementsByTagName('si') || [])
+    .map(item => Array.from(item.getElementsByTagName('t')).map(text => text.textContent || '').join(''));
+
+  const sheet = await readXml(sheetPath);
+  if (!sheet) {
+    throw new Error(`Worksheet ${sheetPath} is missing from the workbook`);
+  }
+
+  const rows: string[][] = [];
+  Array.from(sheet.getElementsByTagName('row')).forEach(rowElement => {
+    const rowIndex = Number(rowElement.getAttribute('r')) - 1;
+    const cells: string[] = [];
+
+    Array.from(rowElement.getElementsByTagName('c')).forEach((cell, position) => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : position;
+      const type = cell.getAttribute('t');
+      const value = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+
+      if (type === 's') {
+        cells[index] = sharedStrings[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        cells[index] = Array.from(cell.getElementsByTagName('t')).map(text => text.textContent || '').join('');
+      } else if (type === 'b') {
+        cells[index] = value === '1' ? 'TRUE' : 'FALSE';
+      } else {
+        cells[index] = value;
+      }
+    });
+
+    rows[rowIndex >= 0 ? rowIndex : rows.length] = Array.from(cells, cell => cell ?? '');
+  });
+
+  return toTable(Array.from(rows, row => row ?? []));
+}
+
+/**
+ * CSV or XLSX, by file extension
+ */
+export async function readSpreadsheetFile(file: File): Promise<SpreadsheetTable> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  if (extension === 'xlsx') {
+    return parseXlsx(await file.arrayBuffer());
+  }
+  if (extension === 'xls') {
+    throw new Error('Old Excel (.xls) files are not supported. Save the sheet as .xlsx or CSV.');
+  }
+  return parseCsv(await file.text());
+}
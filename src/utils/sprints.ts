@@ -0,0 +1,96 @@
+// sprints.ts - Sprints of the iteration calendar, for the iteration row and snapped bars
+
+import type { IterationOption } from '../types/dataSource.types';
+
+const PATH_SEPARATOR = '\\';
+
+export const iterationName = (iteration: IterationOption) =>
+  iteration.path.split(PATH_SEPARATOR).pop() || iteration.path;
+
+const parentPath = (path: string) => path.split(PATH_SEPARATOR).slice(0, -1).join(PATH_SEPARATOR);
+
+/**
+ * Calendar day of an iteration date ("2026-01-05T00:00:00Z") in local time,
+ * so a sprint starting on the 5th starts on the 5th in every time zone
+ */
+export function toLocalDay(date: string): Date {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// The day after the finish date, where the sprint ends on the timeline
+function endOfSprint(sprint: IterationOption): Date {
+  const finish = toLocalDay(sprint.finishDate);
+  return new Date(finish.getFullYear(), finish.getMonth(), finish.getDate() + 1);
+}
+
+/**
+ * Dated iterations without dated children, i.e. the sprints rather than
+ * their releases or PIs, earliest first
+ */
+export function getSprints(iterations: IterationOption[]): IterationOption[] {
+  const hasDatedChildren = new Set(iterations.map(iteration => parentPath(iteration.path)));
+  return iterations
+    .filter(iteration => !hasDatedChildren.has(iteration.path))
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
+
+/**
+ * One sprint per point in time. Where teams run their own overlapping
+ * sprints the earliest starting one is kept, so the row reads as a single
+ * cadence.
+ */
+export function getSprintCadence(iterations: IterationOption[]): IterationOption[] {
+  return getSprints(iterations).reduce<IterationOption[]>((cadence, sprint) => {
+    const previous = cadence[cadence.length - 1];
+    if (previous && sprint.startDate.slice(0, 10) <= previous.finishDate.slice(0, 10)) return cadence;
+    return [...cadence, sprint];
+  }, []);
+}
+
+/**
+ * The sprint a day falls in, if any
+ */
+export function findSprint(sprints: IterationOption[], date: Date): IterationOption | undefined {
+  return sprints.find(sprint => date >= toLocalDay(sprint.startDate) && date < endOfSprint(sprint));
+}
+
+/**
+ * A work item's dates widened to the start of its first sprint and the end
+ * of its last one. Dates outside every sprint are kept as they are.
+ */
+export function snapToSprints(
+  start: string,
+  end: string,
+  sprints: IterationOption[]
+): { startDate: Date; endDate: Date } {
+  const startSprint = findSprint(sprints, toLocalDay(start));
+  const endSprint = findSprint(sprints, toLocalDay(end));
+
+  return {
+    startDate: startSprint ? toLocalDay(startSprint.startDate) : new Date(start),
+    endDate: endSprint ? endOfSprint(endSprint) : new Date(end),
+  };
+}
+
+/**
+ * Sprints a work item's dates overlap, earliest first
+ */
+export function getSpannedSprints(start: string, end: string, sprints: IterationOption[]): IterationOption[] {
+  const startDay = toLocalDay(start);
+  const endDay = toLocalDay(end);
+  return sprints.filter(sprint => toLocalDay(sprint.startDate) <= endDay && endOfSprint(sprint) > startDay);
+}
+
+/**
+ * "Sprint 3 – Sprint 5 (3 sprints)" for work running over several sprints,
+ * null when it starts and ends in the same one
+ */
+export function describeSprintSpan(start: string, end: string, sprints: IterationOption[]): string | null {
+  const spanned = getSpannedSprints(start, end, sprints);
+  if (spanned.length < 2) return null;
+
+  const first = iterationName(spanned[0]);
+  const last = iterationName(spanned[spanned.length - 1]);
+  return `${first} – ${last} (${spanned.length} sprints)`;
+}
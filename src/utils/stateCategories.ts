@@ -0,0 +1,30 @@
+// stateCategories.ts - Completion logic based on work item state categories
+
+/**
+ * State categories as returned by the work item type states API
+ */
+export type StateCategory = 'Proposed' | 'InProgress' | 'Resolved' | 'Completed' | 'Removed';
+
+// Only used when a source does not provide categories (e.g. legacy or imported data)
+const FALLBACK_COMPLETED_STATE_NAMES = new Set([
+  'done', 'closed', 'resolved', 'completed', 'shipped', 'released'
+]);
+
+/**
+ * Whether a state counts as done. The category decides when known,
+ * so custom states like "Deployed" in the Completed category count too.
+ */
+export function isCompletedState(state?: string, stateCategory?: string): boolean {
+  if (stateCategory) {
+    return stateCategory === 'Completed';
+  }
+  const s = (state || '').toString().toLowerCase().trim();
+  return FALLBACK_COMPLETED_STATE_NAMES.has(s);
+}
+
+/**
+ * Removed items are left out of progress totals
+ */
+export function isRemovedState(stateCategory?: string): boolean {
+  return stateCategory === 'Removed';
+}
@@ -1,14 +1,22 @@
 import { CARD_HEIGHTS } from './constants';
 import { Epic, Feature } from '../types/timeline.types';
+import type { IterationOption } from '../types/dataSource.types';
+import { snapToSprints } from './sprints';
 
+/**
+ * Position of a work item bar. With sprints the bar runs from the start of
+ * its first sprint to the end of its last one.
+ */
 export const calculateBarStyle = (
   start: string,
   end: string,
   timelineStart: Date,
-  timelineEnd: Date
+  timelineEnd: Date,
+  sprints?: IterationOption[]
 ) => {
-  const startDate = new Date(start);
-  const endDate = new Date(end);
+  const { startDate, endDate } = sprints && sprints.length > 0
+    ? snapToSprints(start, end, sprints)
+    : { startDate: new Date(start), endDate: new Date(end) };
   const totalDays = (timelineEnd.getTime() - timelineStart.getTime()) / (1000 * 60 * 60 * 24);
   const startOffset = (startDate.getTime() - timelineStart.getTime()) / (1000 * 60 * 60 * 24);
   const duration = (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24);
@@ -26,6 +34,30 @@ export const calculateBarStyle = (
   };
 };
 
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Position of a span of whole days (e.g. an iteration, finish day included)
+ * in the header, cut at the timeline's edges. Null when it is out of view.
+ */
+export const calculateSpanStyle = (
+  start: Date,
+  finish: Date,
+  timelineStart: Date,
+  timelineEnd: Date
+): { left: string; width: string } | null => {
+  const totalDays = (timelineEnd.getTime() - timelineStart.getTime()) / DAY_MS;
+  const startOffset = Math.max(0, (start.getTime() - timelineStart.getTime()) / DAY_MS);
+  const endOffset = Math.min(totalDays, (finish.getTime() - timelineStart.getTime()) / DAY_MS + 1);
+
+  if (endOffset <= startOffset) return null;
+
+  return {
+    left: `${(startOffset / totalDays) * 100}%`,
+    width: `${((endOffset - startOffset) / totalDays) * 100}%`,
+  };
+};
+
 export const getCurrentDatePosition = (today: Date, timelineStart: Date, timelineEnd: Date) => {
   const totalDays = (timelineEnd.getTime() - timelineStart.getTime()) / (1000 * 60 * 60 * 24);
   const currentOffset = (today.getTime() - timelineStart.getTime()) / (1000 * 60 * 60 * 24);
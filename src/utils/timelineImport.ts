@@ -0,0 +1,295 @@
+// timelineImport.ts - Turn spreadsheet rows into timeline data, with per-row validation
+
+import type { SpreadsheetTable } from './spreadsheetParser';
+import {
+  GenericWorkItem,
+  TimelineData,
+  UnscheduledWorkItem,
+  ValueStreamData,
+  transformLegacyData,
+} from './dataAdapter';
+import { isCompletedState } from './stateCategories';
+import { toLaneId } from './valueStreamGrouping';
+
+export type ImportField =
+  | 'id'
+  | 'title'
+  | 'type'
+  | 'parentId'
+  | 'start'
+  | 'end'
+  | 'state'
+  | 'valueStream'
+  | 'tags';
+
+export interface ImportFieldInfo {
+  field: ImportField;
+  label: string;
+  required: boolean;
+  // Header names picked automatically (lower case, without spaces and punctuation)
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportFieldInfo[] = [
+  { field: 'id', label: 'ID', required: true, aliases: ['id', 'key', 'workitemid', 'issuekey', 'number'] },
+  { field: 'title', label: 'Title', required: true, aliases: ['title', 'name', 'summary'] },
+  { field: 'type', label: 'Type', required: true, aliases: ['type', 'workitemtype', 'issuetype', 'level'] },
+  { field: 'parentId', label: 'Parent ID', required: false, aliases: ['parentid', 'parent', 'parentkey', 'epic', 'epiclink'] },
+  { field: 'start', label: 'Start', required: false, aliases: ['start', 'startdate', 'begin', 'from'] },
+  { field: 'end', label: 'End', required: false, aliases: ['end', 'enddate', 'targetdate', 'finish', 'finishdate', 'due', 'duedate', 'to'] },
+  { field: 'state', label: 'State', required: false, aliases: ['state', 'status'] },
+  { field: 'valueStream', label: 'Value stream', required: false, aliases: ['valuestream', 'stream', 'team', 'art', 'lane', 'swimlane'] },
+  { field: 'tags', label: 'Tags', required: false, aliases: ['tags', 'labels'] },
+];
+
+/**
+ * Column index per field, null when the field is not in the file
+ */
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ImportRowError {
+  rowNumber: number;
+  field?: ImportField;
+  message: string;
+}
+
+export interface ImportResult {
+  data: TimelineData;
+  // Rows that were left out, and why
+  errors: ImportRowError[];
+  importedCount: number;
+}
+
+// Lane for rows without a value stream
+const DEFAULT_VALUE_STREAM = 'Imported';
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Mapping from header names, e.g. "Parent ID" -> parentId
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+
+  return IMPORT_FIELDS.reduce((mapping, { field, aliases }) => {
+    const index = aliases
+      .map(alias => normalized.findIndex((header, i) => header === alias && !used.has(i)))
+      .find(i => i >= 0);
+    if (index !== undefined) used.add(index);
+    mapping[field] = index ?? null;
+    return mapping;
+  }, {} as ColumnMapping);
+}
+
+/**
+ * Fields that must be mapped before importing
+ */
+export function getMissingRequiredFields(mapping: ColumnMapping): ImportFieldInfo[] {
+  return IMPORT_FIELDS.filter(info => info.required && mapping[info.field] === null);
+}
+
+// Excel stores dates as days since 1899-12-30
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * "2026-10-01", "2026/10/01", "10/1/2026" (month first) or an Excel serial
+ * date, as YYYY-MM-DD. Null when the text is not one of these.
+ */
+export function parseImportDate(value: string): string | null {
+  const text = value.trim();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const build = (year: number, month: number, day: number) => {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+      ? `${year}-${pad(month)}-${pad(day)}`
+      : null;
+  };
+
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T ].*)?$/);
+  if (match) return build(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (match) return build(Number(match[3]), Number(match[1]), Number(match[2]));
+
+  // Serial numbers between 1954 and 2119
+  if (/^\d{5}(\.\d+)?$/.test(text)) {
+    const serial = Number(text);
+    if (serial >= 20000 && serial < 80000) {
+      return new Date(EXCEL_EPOCH_MS + Math.floor(serial) * DAY_MS).toISOString().split('T')[0];
+    }
+  }
+  return null;
+}
+
+interface ImportRow {
+  rowNumber: number;
+  id: string;
+  title: string;
+  type: string;
+  parentId?: string;
+  start?: string;
+  end?: string;
+  state?: string;
+  valueStream?: string;
+  tags: string[];
+  children: ImportRow[];
+}
+
+/**
+ * Rows without errors as timeline data (through transformLegacyData, like
+ * the other sources). Items without a parent are roots; Features without a
+ * parent go to the Unparented row. Items without dates span their children,
+ * or are listed as unscheduled.
+ */
+export function buildImportedTimeline(table: SpreadsheetTable, mapping: ColumnMapping): ImportResult {
+  const errors: ImportRowError[] = [];
+  const rows = new Map<string, ImportRow>();
+
+  const cell = (cells: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? '' : (cells[index] ?? '').trim();
+  };
+
+  // Field checks per row
+  table.rows.forEach(({ rowNumber, cells }) => {
+    const fail = (message: string, field?: ImportField) => errors.push({ rowNumber, field, message });
+    const id = cell(cells, 'id');
+    const title = cell(cells, 'title');
+    const type = cell(cells, 'type');
+
+    if (!id) return fail('ID is empty', 'id');
+    if (rows.has(id)) return fail(`ID ${id} is used on row ${rows.get(id)!.rowNumber} already`, 'id');
+    if (!title) return fail('Title is empty', 'title');
+    if (!type) return fail('Type is empty', 'type');
+
+    const startText = cell(cells, 'start');
+    const endText = cell(cells, 'end');
+    const start = startText ? parseImportDate(startText) : undefined;
+    const end = endText ? parseImportDate(endText) : undefined;
+    if (start === null) return fail(`Start "${startText}" is not a date (use YYYY-MM-DD)`, 'start');
+    if (end === null) return fail(`End "${endText}" is not a date (use YYYY-MM-DD)`, 'end');
+    if (!!start !== !!end) return fail(start ? 'Start is set but End is empty' : 'End is set but Start is empty', start ? 'end' : 'start');
+    if (start && end && end < start) return fail(`End ${end} is before Start ${start}`, 'end');
+
+    const parentId = cell(cells, 'parentId');
+    if (parentId === id) return fail('Item is its own parent', 'parentId');
+
+    rows.set(id, {
+      rowNumber,
+      id,
+      title,
+      type,
+      parentId: parentId || undefined,
+      start: start || undefined,
+      end: end || undefined,
+      state: cell(cells, 'state') || undefined,
+      valueStream: cell(cells, 'valueStream') || undefined,
+      tags: cell(cells, 'tags').split(/[;,]/).map(tag => tag.trim()).filter(Boolean),
+      children: [],
+    });
+  });
+
+  // Parents must exist and be valid; rows under a rejected row go with it
+  const rejected = new Set<string>();
+  const checkParent = (row: ImportRow, seen: Set<string>): boolean => {
+    if (rejected.has(row.id)) return false;
+    if (!row.parentId) return true;
+
+    const parent = rows.get(row.parentId);
+    let message: string | null = null;
+    if (!parent) {
+      message = `Parent ${row.parentId} is not in the file or has errors`;
+    } else if (seen.has(parent.id)) {
+      message = `Parent ${row.parentId} is also a descendant (circular parents)`;
+    } else if (!checkParent(parent, new Set(seen).add(parent.id))) {
+      message = `Parent ${row.parentId} was not imported`;
+    }
+
+    if (message) {
+      rejected.add(row.id);
+      errors.push({ rowNumber: row.rowNumber, field: 'parentId', message });
+      return false;
+    }
+    return true;
+  };
+  rows.forEach(row => checkParent(row, new Set([row.id])));
+  rejected.forEach(id => rows.delete(id));
+
+  rows.forEach(row => {
+    if (row.parentId) rows.get(row.parentId)!.children.push(row);
+  });
+
+  const convert = (row: ImportRow, unscheduled: UnscheduledWorkItem[]): GenericWorkItem | null => {
+    const children = row.children
+      .map(child => convert(child, unscheduled))
+      .filter((child): child is GenericWorkItem => !!child);
+
+    let start = row.start;
+    let end = row.end;
+    if (!start && children.length > 0) {
+      start = children.reduce((min, child) => (child.iterationStart < min ? child.iterationStart : min), children[0].iterationStart);
+      end = children.reduce((max, child) => (child.iterationEnd > max ? child.iterationEnd : max), children[0].iterationEnd);
+    }
+
+    if (!start || !end) {
+      unscheduled.push({
+        id: row.id,
+        title: row.title,
+        workItemType: row.type,
+        state: row.state,
+        parentId: row.parentId,
+        childCount: row.children.length,
+        reason: 'No Start and End dates, and no children with dates',
+      });
+      return null;
+    }
+
+    return {
+      id: row.id,
+      title: row.title,
+      workItemType: row.type,
+      state: row.state,
+      iterationStart: start,
+      iterationEnd: end,
+      dateSource: row.start ? 'fields' : 'childIterations',
+      tags: row.tags,
+      // Undated children count too; leaves fall back to their own state
+      childCount: row.children.length || undefined,
+      completedChildCount: row.children.length
+        ? row.children.filter(child => isCompletedState(child.state)).length
+        : undefined,
+      children,
+    };
+  };
+
+  // Lanes by value stream name as written, in the order their first root appears in the file
+  const lanes = new Map<string, ValueStreamData>();
+  rows.forEach(row => {
+    if (row.parentId) return;
+
+    const name = row.valueStream || DEFAULT_VALUE_STREAM;
+    if (!lanes.has(name)) {
+      lanes.set(name, { id: toLaneId('vs', name), name, workItems: [], unparented: [], unscheduled: [] });
+    }
+    const lane = lanes.get(name)!;
+
+    const item = convert(row, lane.unscheduled!);
+    if (!item) return;
+    if (row.type.toLowerCase() === 'feature') {
+      lane.unparented!.push(item);
+    } else {
+      lane.workItems.push(item);
+    }
+  });
+
+  errors.sort((a, b) => a.rowNumber - b.rowNumber);
+  console.log(`[timelineImport] ${rows.size} of ${table.rows.length} rows imported, ${errors.length} errors`);
+
+  return {
+    data: transformLegacyData({ valueStreams: Array.from(lanes.values()) }),
+    errors,
+    importedCount: rows.size,
+  };
+}
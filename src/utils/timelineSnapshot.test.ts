@@ -0,0 +1,50 @@
+import { describe, expect, it } from '@jest/globals';
+import { SNAPSHOT_FORMAT, SNAPSHOT_VERSION } from '../types/snapshot.types';
+import { parseSnapshot } from './timelineSnapshot';
+
+const file = (overrides: Record<string, unknown> = {}) => JSON.stringify({
+  format: SNAPSHOT_FORMAT,
+  version: 1,
+  capturedAt: '2026-03-02T09:00:00.000Z',
+  data: { valueStreams: [] },
+  milestones: [],
+  settings: {},
+  view: { viewLevel: 'epic', timelineStart: '2026-01-01', timelineEnd: '2026-06-30', zoomLevel: 1, expandedItems: {} },
+  ...overrides,
+});
+
+describe('parseSnapshot', () => {
+  it('opens version 1 files with the later fields defaulted', () => {
+    const snapshot = parseSnapshot(file());
+
+    expect(snapshot.version).toBe(1);
+    expect(snapshot.iterations).toEqual([]);
+    expect(snapshot.view.collapsedLanes).toEqual({});
+    expect(snapshot.view.fiscalYearStartMonth).toBe(1);
+  });
+
+  it('keeps the fields of current files', () => {
+    const iterations = [{ path: 'Contoso\\PI 1', startDate: '2026-01-05', finishDate: '2026-03-27' }];
+    const snapshot = parseSnapshot(file({
+      version: SNAPSHOT_VERSION,
+      iterations,
+      view: {
+        viewLevel: 'feature',
+        timelineStart: '2026-01-01',
+        timelineEnd: '2026-06-30',
+        zoomLevel: 1,
+        expandedItems: {},
+        collapsedLanes: { 'group-Contoso': true },
+        fiscalYearStartMonth: 10,
+      },
+    }));
+
+    expect(snapshot.iterations).toEqual(iterations);
+    expect(snapshot.view.collapsedLanes).toEqual({ 'group-Contoso': true });
+    expect(snapshot.view.fiscalYearStartMonth).toBe(10);
+  });
+
+  it('rejects files from a newer version', () => {
+    expect(() => parseSnapshot(file({ version: SNAPSHOT_VERSION + 1 }))).toThrow(/newer version/);
+  });
+});
@@ -0,0 +1,99 @@
+// timelineSnapshot.ts - Write and read versioned timeline snapshot files
+
+import {
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_VERSION,
+  SnapshotView,
+  TimelineSnapshot,
+} from '../types/snapshot.types';
+import type { TimelineData } from './dataAdapter';
+import type { IterationOption } from '../types/dataSource.types';
+import { ZOOM } from './constants';
+import type { Milestone } from '../components/timeline/MilestoneContext';
+import type { Settings } from '../components/timeline/SettingsContext';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Calendar date without a time zone, so a snapshot shows the same range everywhere
+ */
+export function toLocalDateString(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function parseLocalDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function createSnapshot(
+  data: TimelineData,
+  milestones: Milestone[],
+  settings: Settings,
+  view: SnapshotView,
+  iterations: IterationOption[] = []
+): TimelineSnapshot {
+  return {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    capturedAt: new Date().toISOString(),
+    data,
+    milestones,
+    settings,
+    view,
+    iterations,
+  };
+}
+
+/**
+ * Read a snapshot file, rejecting other JSON and snapshots from newer versions.
+ * Fields added since version 1 get their defaults; `version` stays as saved.
+ */
+export function parseSnapshot(text: string): TimelineSnapshot {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (parsed?.format !== SNAPSHOT_FORMAT) {
+    throw new Error('The file is not a timeline snapshot');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > SNAPSHOT_VERSION) {
+    throw new Error(`The snapshot was saved by a newer version of the timeline (version ${parsed.version})`);
+  }
+  if (!Array.isArray(parsed.data?.valueStreams) || !parsed.view?.timelineStart || !parsed.view?.timelineEnd) {
+    throw new Error('The snapshot is incomplete');
+  }
+
+  return {
+    ...parsed,
+    milestones: Array.isArray(parsed.milestones) ? parsed.milestones : [],
+    settings: parsed.settings || {},
+    iterations: Array.isArray(parsed.iterations) ? parsed.iterations : [],
+    view: {
+      zoomLevel: ZOOM.DEFAULT,
+      expandedItems: {},
+      collapsedLanes: {},
+      viewLevel: 'epic',
+      fiscalYearStartMonth: 1,
+      ...parsed.view,
+    },
+  } as TimelineSnapshot;
+}
+
+/**
+ * Save the snapshot as a .json download
+ */
+export function downloadSnapshot(snapshot: TimelineSnapshot): void {
+  const blob = new Blob([JSON.stringify(snapshot, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `timeline-snapshot-${toLocalDateString(new Date(snapshot.capturedAt))}.json`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from '@jest/globals';
+import { GroupingOptions, getLaneGroup, toLaneId } from './valueStreamGrouping';
+
+const options = (overrides: Partial<GroupingOptions> = {}): GroupingOptions => ({
+  grouping: 'field',
+  project: 'Contoso',
+  areaPathDepth: 0,
+  tagPrefix: 'VS:',
+  field: 'Custom.ValueStream',
+  ...overrides,
+});
+
+const laneFor = (value: string) => getLaneGroup({ 'Custom.ValueStream': value }, options());
+
+describe('getLaneGroup', () => {
+  it('keeps values differing only in punctuation apart', () => {
+    const lanes = ['Team A', 'Team-A', 'Team/A'].map(laneFor);
+
+    expect(new Set(lanes.map(lane => lane.key)).size).toBe(3);
+    expect(new Set(lanes.map(lane => lane.id)).size).toBe(3);
+  });
+
+  it('keeps non-ASCII values of the same length apart', () => {
+    const lanes = ['Zahlungen', 'Zählungen', '支付', '结算'].map(laneFor);
+
+    expect(new Set(lanes.map(lane => lane.key)).size).toBe(4);
+    expect(new Set(lanes.map(lane => lane.id)).size).toBe(4);
+  });
+
+  it('gives the same value the same lane', () => {
+    expect(laneFor('Payments')).toEqual(laneFor('Payments'));
+  });
+
+  it('groups tags regardless of case', () => {
+    const grouping = options({ grouping: 'tagPrefix' });
+    const upper = getLaneGroup({ 'System.Tags': 'VS:Payments' }, grouping);
+    const lower = getLaneGroup({ 'System.Tags': 'vs:payments; other' }, grouping);
+
+    expect(upper.key).toBe(lower.key);
+    expect(upper.id).toBe(lower.id);
+  });
+
+  it('nests area paths with distinct ids per segment', () => {
+    const lane = getLaneGroup({ 'System.AreaPath': 'Contoso\\R&D\\Platform' }, options({ grouping: 'areaPath' }));
+    const sibling = getLaneGroup({ 'System.AreaPath': 'Contoso\\R-D\\Platform' }, options({ grouping: 'areaPath' }));
+
+    expect(lane.name).toBe('Platform');
+    expect(lane.id).not.toBe(sibling.id);
+  });
+});
+
+describe('toLaneId', () => {
+  it('can be decoded back to the value', () => {
+    const id = toLaneId('field', 'Team/A ü');
+    expect(decodeURIComponent(id.slice('field-'.length))).toBe('Team/A ü');
+  });
+});
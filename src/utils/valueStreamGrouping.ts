@@ -0,0 +1,164 @@
+// valueStreamGrouping.ts - Which value stream lane a root work item belongs to
+
+import type { ValueStreamGrouping } from '../types/settings.types';
+
+/**
+ * A lane as picked by a grouping strategy
+ */
+export interface LaneGroup {
+  // The grouping value as is (area path, lower-cased tag, field value or
+  // team), prefixed by the strategy. Work items with the same key share a lane.
+  key: string;
+  // Derived from the key only, so it stays the same across loads whatever
+  // else is on the timeline
+  id: string;
+  name: string;
+  // Full area path, tag or field value (a team's owned area path), shown as
+  // the lane tooltip. Lanes nest along its \ separated segments.
+  path: string;
+}
+
+/**
+ * An area path a team owns (its team field values)
+ */
+export interface TeamArea {
+  team: string;
+  areaPath: string;
+  includeChildren: boolean;
+}
+
+export interface GroupingOptions {
+  grouping: ValueStreamGrouping;
+  project: string;
+  // Area path segments kept, 0 for the full path
+  areaPathDepth: number;
+  tagPrefix: string;
+  // Field reference name, e.g. Custom.ValueStream
+  field: string;
+  teamAreas?: TeamArea[];
+}
+
+const PATH_SEPARATOR = '\\';
+
+/**
+ * Lane id for a grouping value. The value is encoded rather than simplified,
+ * so "Team A", "Team-A" and "Team/A" (or names in other scripts) keep
+ * separate lanes.
+ */
+export const toLaneId = (prefix: string, value: string) => `${prefix}-${encodeURIComponent(value)}`;
+
+const lastSegment = (path: string) => path.split(PATH_SEPARATOR).pop() || path;
+
+const laneGroup = (prefix: string, value: string, name: string, path: string): LaneGroup => ({
+  key: `${prefix}:${value}`,
+  id: toLaneId(prefix, value),
+  name,
+  path,
+});
+
+const byPath = (prefix: string, path: string): LaneGroup => laneGroup(prefix, path, lastSegment(path), path);
+
+// Items without a grouping value share one lane per strategy
+const ungrouped = (prefix: string, name: string): LaneGroup =>
+  ({ key: `no-${prefix}`, id: `no-${prefix}`, name, path: name });
+
+/**
+ * System.Tags comes back as "a; b", adapted data as an array
+ */
+export function splitTags(tags: string | string[] | undefined): string[] {
+  if (!tags) return [];
+  const list = Array.isArray(tags) ? tags : tags.split(';');
+  return list.map(tag => tag.trim()).filter(Boolean);
+}
+
+/**
+ * Display text of a field value (identities by display name)
+ */
+function fieldText(value: any): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return String(value.displayName ?? value.name ?? '').trim();
+  return String(value).trim();
+}
+
+/**
+ * The team owning an area path: an exact match, or the closest area that
+ * includes sub-areas. Ties go to the first team by name.
+ */
+export function findTeamForArea(areaPath: string, teamAreas: TeamArea[]): TeamArea | null {
+  const owners = teamAreas
+    .filter(({ areaPath: owned, includeChildren }) =>
+      owned === areaPath || (includeChildren && areaPath.startsWith(owned + PATH_SEPARATOR))
+    )
+    .sort((a, b) => b.areaPath.length - a.areaPath.length || a.team.localeCompare(b.team));
+
+  return owners[0] ?? null;
+}
+
+/**
+ * The lane for a work item, from its fields (System.AreaPath, System.Tags
+ * and the configured field)
+ */
+export function getLaneGroup(fields: { [referenceName: string]: any }, options: GroupingOptions): LaneGroup {
+  const areaPath: string = fields['System.AreaPath'] || options.project;
+
+  switch (options.grouping) {
+    case 'none':
+      return byPath('project', options.project);
+
+    case 'tagPrefix': {
+      const prefix = options.tagPrefix.toLowerCase();
+      const tag = splitTags(fields['System.Tags']).find(
+        candidate => candidate.toLowerCase().startsWith(prefix) && candidate.length > prefix.length
+      );
+      if (!tag) return ungrouped('tag', 'No value stream tag');
+
+      const value = tag.slice(options.tagPrefix.length).trim();
+      return laneGroup('tag', value.toLowerCase(), value, tag);
+    }
+
+    case 'field': {
+      const value = fieldText(fields[options.field]);
+      return value ? byPath('field', value) : ungrouped('field', `No ${options.field}`);
+    }
+
+    case 'team': {
+      const owner = findTeamForArea(areaPath, options.teamAreas || []);
+      return owner
+        ? laneGroup('team', owner.team, owner.team, owner.areaPath)
+        : ungrouped('team', 'No team');
+    }
+
+    case 'areaPath':
+    default: {
+      const segments = areaPath.split(PATH_SEPARATOR);
+      const depth = options.areaPathDepth > 0 ? options.areaPathDepth : segments.length;
+      return byPath('area', segments.slice(0, depth).join(PATH_SEPARATOR));
+    }
+  }
+}
+
+/**
+ * Lanes sharing a name (e.g. two areas ending in "Platform") are shown with
+ * as many parent segments as it takes to tell them apart
+ */
+export function disambiguateLaneNames<T extends { name: string; path?: string }>(lanes: T[]): T[] {
+  const byName = new Map<string, T[]>();
+  lanes.forEach(lane => byName.set(lane.name, [...(byName.get(lane.name) || []), lane]));
+
+  const renamed = new Map<T, string>();
+  byName.forEach(group => {
+    if (group.length < 2) return;
+
+    const segments = group.map(lane => (lane.path || lane.name).split(PATH_SEPARATOR));
+    const longest = Math.max(...segments.map(parts => parts.length));
+    for (let count = 2; count <= longest; count++) {
+      const names = segments.map(parts => parts.slice(-count).join(PATH_SEPARATOR));
+      if (new Set(names).size === names.length || count === longest) {
+        group.forEach((lane, index) => renamed.set(lane, names[index]));
+        break;
+      }
+    }
+  });
+
+  return lanes.map(lane => (renamed.has(lane) ? { ...lane, name: renamed.get(lane)! } : lane));
+}
@@ -0,0 +1,207 @@
+// wiqlBuilder.ts - Typed helpers for composing WIQL without string templates
+
+/**
+ * Which side of a WorkItemLinks query a field belongs to. Omit for flat
+ * WorkItems queries.
+ */
+export type WiqlSide = 'Source' | 'Target';
+
+export type WiqlValue = string | number | Date;
+
+/**
+ * A WIQL predicate; empty strings stand for "no condition" and are dropped by and/or
+ */
+export type WiqlCondition = string;
+
+/**
+ * Escape a string for use inside single quotes (WIQL doubles the quote)
+ */
+export function escapeWiqlString(value: string): string {
+  return value.replace(/'/g, "''");
+}
+
+/**
+ * Render a literal: strings quoted and escaped, dates as 'YYYY-MM-DD'
+ */
+export function wiqlLiteral(value: WiqlValue): string {
+  if (typeof value === 'number') return String(value);
+  if (value instanceof Date) return `'${value.toISOString().split('T')[0]}'`;
+  return `'${escapeWiqlString(value)}'`;
+}
+
+/**
+ * Field reference, e.g. [Source].[System.State]
+ */
+export function wiqlField(referenceName: string, side?: WiqlSide): string {
+  return side ? `[${side}].[${referenceName}]` : `[${referenceName}]`;
+}
+
+const compare = (operator: string) =>
+  (field: string, value: WiqlValue): WiqlCondition => `${field} ${operator} ${wiqlLiteral(value)}`;
+
+export const equals = compare('=');
+export const notEquals = compare('<>');
+export const lessOrEqual = compare('<=');
+export const greaterOrEqual = compare('>=');
+// With a full ISO timestamp, e.g. ChangedDate deltas (needs timePrecision on the query)
+export const greaterThan = compare('>');
+
+/**
+ * Tag and text matching (CONTAINS WORDS would also match parts of a tag)
+ */
+export const contains = compare('CONTAINS');
+
+export function inList(field: string, values: WiqlValue[]): WiqlCondition {
+  if (values.length === 0) return '';
+  if (values.length === 1) return equals(field, values[0]);
+  return `${field} IN (${values.map(wiqlLiteral).join(', ')})`;
+}
+
+export function notInList(field: string, values: WiqlValue[]): WiqlCondition {
+  if (values.length === 0) return '';
+  if (values.length === 1) return notEquals(field, values[0]);
+  return `${field} NOT IN (${values.map(wiqlLiteral).join(', ')})`;
+}
+
+/**
+ * Area or iteration path and everything below it
+ */
+export function under(field: string, path: string): WiqlCondition {
+  return `${field} UNDER ${wiqlLiteral(path)}`;
+}
+
+export function underAny(field: string, paths: string[]): WiqlCondition {
+  return or(...paths.map(path => under(field, path)));
+}
+
+export function and(...conditions: WiqlCondition[]): WiqlCondition {
+  const parts = conditions.filter(Boolean);
+  if (parts.length <= 1) return parts[0] || '';
+  return `(${parts.join(' AND ')})`;
+}
+
+export function or(...conditions: WiqlCondition[]): WiqlCondition {
+  const parts = conditions.filter(Boolean);
+  if (parts.length <= 1) return parts[0] || '';
+  return `(${parts.join(' OR ')})`;
+}
+
+/**
+ * Common work item filters. Every set property adds a condition; they are
+ * combined with AND.
+ */
+export interface WorkItemFilter {
+  project?: string;
+  workItemTypes?: string[];
+  states?: string[];
+  excludeStates?: string[];
+  // Exact iteration paths
+  iterationPaths?: string[];
+  // Iteration paths including their children
+  iterationsUnder?: string[];
+  // Area paths including their children
+  areasUnder?: string[];
+  // Every tag must be present
+  tags?: string[];
+  // Start Date / Target Date overlapping the range
+  dateRange?: { start: Date; end: Date };
+  // Non-empty iteration path
+  requireIteration?: boolean;
+}
+
+const FIELDS = {
+  project: 'System.TeamProject',
+  workItemType: 'System.WorkItemType',
+  state: 'System.State',
+  iterationPath: 'System.IterationPath',
+  areaPath: 'System.AreaPath',
+  tags: 'System.Tags',
+  startDate: 'Microsoft.VSTS.Scheduling.StartDate',
+  targetDate: 'Microsoft.VSTS.Scheduling.TargetDate',
+};
+
+/**
+ * Date fields overlapping a range: starts before it ends and ends after it starts
+ */
+export function dateRangeOverlaps(range: { start: Date; end: Date }, side?: WiqlSide): WiqlCondition {
+  return and(
+    lessOrEqual(wiqlField(FIELDS.startDate, side), range.end),
+    greaterOrEqual(wiqlField(FIELDS.targetDate, side), range.start)
+  );
+}
+
+/**
+ * No Start Date / Target Date and still in the project's root iteration
+ * (no sprint): nothing places the item on the timeline
+ */
+export function hasNoDates(rootIterationPath: string, side?: WiqlSide): WiqlCondition {
+  return and(
+    equals(wiqlField(FIELDS.startDate, side), ''),
+    equals(wiqlField(FIELDS.targetDate, side), ''),
+    equals(wiqlField(FIELDS.iterationPath, side), rootIterationPath)
+  );
+}
+
+export function buildFilterCondition(filter: WorkItemFilter, side?: WiqlSide): WiqlCondition {
+  const field = (name: string) => wiqlField(name, side);
+
+  return and(
+    filter.project ? equals(field(FIELDS.project), filter.project) : '',
+    inList(field(FIELDS.workItemType), filter.workItemTypes || []),
+    inList(field(FIELDS.state), filter.states || []),
+    notInList(field(FIELDS.state), filter.excludeStates || []),
+    inList(field(FIELDS.iterationPath), filter.iterationPaths || []),
+    underAny(field(FIELDS.iterationPath), filter.iterationsUnder || []),
+    underAny(field(FIELDS.areaPath), filter.areasUnder || []),
+    and(...(filter.tags || []).map(tag => contains(field(FIELDS.tags), tag))),
+    filter.dateRange ? dateRangeOverlaps(filter.dateRange, side) : '',
+    filter.requireIteration ? notEquals(field(FIELDS.iterationPath), '') : ''
+  );
+}
+
+export type WiqlLinksMode =
+  | 'MustContain'
+  | 'MayContain'
+  | 'DoesNotContain'
+  | 'Recursive'
+  | 'Recursive, ReturnMatchingChildren';
+
+/**
+ * SELECT ... FROM WorkItemLinks query, e.g. a parent/child tree
+ */
+export function buildLinksQuery(query: {
+  fields: string[];
+  source: WiqlCondition;
+  target?: WiqlCondition;
+  linkType: string;
+  mode: WiqlLinksMode;
+}): string {
+  const where = and(
+    query.source,
+    equals('[System.Links.LinkType]', query.linkType),
+    query.target || ''
+  );
+
+  return [
+    `SELECT ${query.fields.map(name => wiqlField(name)).join(', ')}`,
+    'FROM WorkItemLinks',
+    `WHERE ${where}`,
+    `MODE (${query.mode})`,
+  ].join('\n');
+}
+
+/**
+ * SELECT ... FROM WorkItems query
+ */
+export function buildWorkItemsQuery(query: {
+  fields: string[];
+  where: WiqlCondition;
+  orderBy?: string[];
+}): string {
+  return [
+    `SELECT ${query.fields.map(name => wiqlField(name)).join(', ')}`,
+    'FROM WorkItems',
+    query.where ? `WHERE ${query.where}` : '',
+    query.orderBy?.length ? `ORDER BY ${query.orderBy.map(name => wiqlField(name)).join(', ')}` : '',
+  ].filter(Boolean).join('\n');
+}
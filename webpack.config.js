@@ -17,7 +17,8 @@ module.exports = (env, argv) => {
 
   return {
     entry: {
-      main: './src/index.tsx'
+      main: './src/index.tsx',
+      settings: './src/settings.tsx'
     },
     output: {
       filename: '[name].bundle.js',
@@ -97,6 +98,19 @@ module.exports = (env, argv) => {
           removeAttributeQuotes: true
         }
       }),
+
+      // HTML plugin for the Timeline Settings project-admin hub
+      new HtmlWebpackPlugin({
+        template: './src/index.html',
+        filename: 'settings.html',
+        chunks: ['settings'],
+        inject: 'body',
+        minify: isDevelopment ? false : {
+          removeComments: true,
+          collapseWhitespace: true,
+          removeAttributeQuotes: true
+        }
+      }),
     
       // Copy static assets
       new CopyWebpackPlugin({
@@ -145,6 +159,15 @@ module.exports = (env, argv) => {
       },
       compress: true,
       port: 3000,
+      // Jira Cloud sends no CORS headers; point REACT_APP_JIRA_BASE_URL at /jira-api to go through this proxy
+      proxy: envVars.JIRA_PROXY_TARGET ? {
+        '/jira-api': {
+          target: envVars.JIRA_PROXY_TARGET,
+          pathRewrite: { '^/jira-api': '' },
+          changeOrigin: true,
+          secure: true
+        }
+      } : undefined,
       hot: true,
       open: true,
       historyApiFallback: true,